@@ -0,0 +1,121 @@
+/**
+ * Check Gestures – Classify synthetic baseline poses with the default registry
+ * Guards the control gestures (open, pinch, fist) against new vocabulary
+ * taking them over, and calibration against thresholds an open hand can't
+ * escape. Exits non-zero if any check failed.
+ */
+
+import { readFile } from 'node:fs/promises';
+import ts from 'typescript';
+
+// Transpile a src module into a data URL, pointing its relative imports at already loaded ones
+async function load(name, deps = {}) {
+    const source = await readFile(new URL(`../src/${name}.ts`, import.meta.url), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    });
+    const code = outputText.replace(/from '\.\/(\w+)'/g, (match, dep) => (deps[dep] ? `from '${deps[dep]}'` : match));
+    return `data:text/javascript;base64,${Buffer.from(code).toString('base64')}`;
+}
+
+const gesturesUrl = await load('gestures');
+const { createGestureRegistry, extractHandFeatures, BUILT_IN_GESTURES, OPTIONAL_GESTURES } = await import(gesturesUrl);
+const { deriveThresholds } = await import(
+    await load('calibration', { gestures: gesturesUrl, dom: await load('dom') })
+);
+
+// ========== Poses ==========
+
+// Upright hand, wrist at the bottom: hand size 0.2, fingers extended when the tip is above the PIP joint
+const FINGERS = { index: [8, 6, 0.44], middle: [12, 10, 0.5], ring: [16, 14, 0.56], pinky: [20, 18, 0.62] };
+const THUMB_TIPS = { side: [0.3, 0.62], up: [0.4, 0.5], folded: [0.46, 0.68] };
+
+function pose({ up = [], thumb = 'folded', pinch = false }) {
+    const landmarks = Array.from({ length: 21 }, () => ({ x: 0.5, y: 0.7, z: 0 }));
+    landmarks[0] = { x: 0.5, y: 0.8, z: 0 }; // wrist
+    landmarks[9] = { x: 0.5, y: 0.6, z: 0 }; // middle finger base
+    landmarks[2] = { x: 0.42, y: 0.7, z: 0 }; // thumb base
+    landmarks[3] = { x: 0.38, y: 0.66, z: 0 }; // thumb IP
+    for (const [finger, [tip, pip, x]] of Object.entries(FINGERS)) {
+        landmarks[pip] = { x, y: 0.55, z: 0 };
+        landmarks[tip] = { x, y: up.includes(finger) ? 0.4 : 0.62, z: 0 };
+    }
+    const [tx, ty] = THUMB_TIPS[thumb];
+    landmarks[4] = { x: tx, y: ty, z: 0 };
+    // Thumb tip resting on the curled index tip
+    if (pinch) landmarks[4] = { x: landmarks[8].x, y: landmarks[8].y + 0.01, z: 0 };
+    return landmarks;
+}
+
+const ALL = ['index', 'middle', 'ring', 'pinky'];
+const POSES = {
+    open: pose({ up: ALL, thumb: 'side' }),
+    fist: pose({}),
+    fistThumbUp: pose({ thumb: 'up' }),
+    pinch: pose({ up: ['middle', 'ring', 'pinky'], pinch: true }),
+    point: pose({ up: ['index'] }),
+};
+
+// ========== Checks ==========
+
+const CASES = [
+    // [rules, pose, active gesture, expected]
+    [BUILT_IN_GESTURES, 'open', undefined, 'open'],
+    [BUILT_IN_GESTURES, 'fist', undefined, 'fist'],
+    [BUILT_IN_GESTURES, 'fistThumbUp', undefined, 'fist'],
+    [BUILT_IN_GESTURES, 'fistThumbUp', 'fist', 'fist'],
+    [BUILT_IN_GESTURES, 'pinch', undefined, 'pinch'],
+    [BUILT_IN_GESTURES, 'pinch', 'pinch', 'pinch'],
+    [BUILT_IN_GESTURES, 'point', undefined, 'point'],
+    // Opted in, the extra vocabulary is recognised
+    [[...BUILT_IN_GESTURES, ...OPTIONAL_GESTURES], 'fistThumbUp', undefined, 'thumbsUp'],
+    [[...BUILT_IN_GESTURES, ...OPTIONAL_GESTURES], 'pinch', undefined, 'ok'],
+];
+
+let failed = 0;
+for (const [rules, name, active, expected] of CASES) {
+    const { gesture } = createGestureRegistry(rules).classify(POSES[name], active);
+    const label = `${name}${active ? ` (while ${active})` : ''} → ${expected}`;
+    if (gesture === expected) {
+        console.log(`✓ ${label}`);
+    } else {
+        console.error(`✗ ${label}, got ${gesture}`);
+        failed++;
+    }
+}
+
+// ========== Calibration ==========
+
+// Sampled poses with the given thumb–index distances (open hand, pinch)
+function samples(spread, pinched) {
+    const base = extractHandFeatures(POSES.open);
+    const open = { ...base, pinchDistance: spread };
+    const fist = { ...extractHandFeatures(POSES.fist), pinchDistance: spread };
+    const pinch = { ...base, pinchDistance: pinched };
+    return { open: Array(30).fill(open), fist: Array(30).fill(fist), pinch: Array(30).fill(pinch) };
+}
+
+const CALIBRATIONS = [
+    // [label, open spread, pinched distance, accepted]
+    ['wide open hand', 1, 0.2, true],
+    // Clamped up to the default range, the release cut-off lands past the open hand
+    ['open hand barely above the clamped pinch', 0.36, 0.05, false],
+];
+
+for (const [label, spread, pinched, accepted] of CALIBRATIONS) {
+    let thresholds = null;
+    try {
+        thresholds = deriveThresholds(samples(spread, pinched));
+    } catch {
+        // rejected
+    }
+    const ok = accepted ? thresholds !== null && thresholds.pinchExit < spread : thresholds === null;
+    if (ok) {
+        console.log(`✓ calibration: ${label} ${accepted ? 'accepted' : 'rejected'}`);
+    } else {
+        console.error(`✗ calibration: ${label} should be ${accepted ? 'accepted' : 'rejected'}`);
+        failed++;
+    }
+}
+
+if (failed) process.exit(1);
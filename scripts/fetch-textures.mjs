@@ -0,0 +1,27 @@
+/**
+ * Fetch Textures – Download the other bodies' textures into public/textures
+ * The Earth textures are committed; run this once on a machine with internet
+ * access before `npm run build` so the Moon, Mars, Venus and Jupiter are served
+ * locally too (see ASSET_MANIFEST in src/assets.ts).
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+
+const SOURCES = {
+    // Moon, Mars, Venus and Jupiter (Solar System Scope, CC BY 4.0)
+    'https://www.solarsystemscope.com/textures/download/': [
+        '2k_moon.jpg', '2k_mars.jpg', '2k_venus_atmosphere.jpg', '2k_jupiter.jpg',
+    ],
+};
+const TARGET = new URL('../public/textures/', import.meta.url);
+
+await mkdir(TARGET, { recursive: true });
+
+for (const [source, files] of Object.entries(SOURCES)) {
+    for (const file of files) {
+        const res = await fetch(source + file);
+        if (!res.ok) throw new Error(`${file}: HTTP ${res.status}`);
+        await writeFile(new URL(file, TARGET), Buffer.from(await res.arrayBuffer()));
+        console.log(`✓ ${file}`);
+    }
+}
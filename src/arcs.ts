@@ -0,0 +1,247 @@
+/**
+ * Arcs Layer – Great-circle curves between lat/lon pairs
+ * Arcs rise off the surface in proportion to their length and can show
+ * dashes flowing from origin to destination. They live in the globe group,
+ * so they follow rotation, zoom and movePosition.
+ */
+
+import * as THREE from 'three';
+import type { GlobeScene } from './globe';
+import { latLonToVector3 } from './geo';
+import { parseCSV, pickColumn } from './csv';
+
+export interface Arc {
+    id: string;
+    startLat: number;
+    startLon: number;
+    endLat: number;
+    endLon: number;
+    color?: string; // any CSS color
+    width?: number; // relative line width (1 = default)
+    properties?: Record<string, unknown>;
+}
+
+export interface ArcOptions {
+    heightFactor: number; // peak altitude per radian of arc length
+    maxHeight: number; // peak altitude cap (globe radii)
+    dashLength: number; // fraction of the arc, 0..1
+    gapLength: number; // fraction of the arc, 0..1
+    speed: number; // dash cycles per second
+}
+
+export interface ArcLayer {
+    add: (arc: Arc) => void;
+    remove: (id: string) => void;
+    clear: () => void;
+    list: () => Arc[];
+    /** Add arcs from an array (or { arcs: [...] }); returns how many were added */
+    loadJSON: (data: unknown) => number;
+    /** Add arcs from CSV with start/end lat/lon columns (from_lat, origin_lat, ... also accepted) */
+    loadCSV: (text: string) => number;
+    setAnimated: (animated: boolean) => void;
+    setVisible: (visible: boolean) => void;
+    dispose: () => void;
+}
+
+export const DEFAULT_ARC_OPTIONS: ArcOptions = {
+    heightFactor: 0.25,
+    maxHeight: 0.5,
+    dashLength: 0.15,
+    gapLength: 0.1,
+    speed: 0.5,
+};
+
+const DEFAULT_COLOR = '#4fc3f7';
+const BASE_WIDTH = 0.003; // tube radius of a width-1 arc
+const SEGMENTS_PER_RADIAN = 48;
+const SURFACE_ALTITUDE = 1.005; // arc ends, just above the borders
+
+const arcVertexShader = `
+    varying float vProgress;
+    void main() {
+        vProgress = uv.x; // 0 at the origin, 1 at the destination
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+`;
+
+const arcFragmentShader = `
+    uniform vec3 uColor;
+    uniform float uTime;
+    uniform float uDash;
+    uniform float uGap;
+    uniform float uSpeed;
+    uniform float uAnimated;
+    varying float vProgress;
+    void main() {
+        float period = uDash + uGap;
+        float phase = mod(vProgress - uTime * uSpeed * period, period);
+        float dash = mix(1.0, step(phase, uDash), uAnimated);
+        // Fade in at the origin and out at the destination
+        float ends = smoothstep(0.0, 0.05, vProgress) * smoothstep(1.0, 0.95, vProgress);
+        float alpha = mix(0.25, 1.0, dash) * ends;
+        gl_FragColor = vec4(uColor, alpha);
+    }
+`;
+
+interface ArcEntry {
+    arc: Arc;
+    mesh: THREE.Mesh<THREE.TubeGeometry, THREE.ShaderMaterial>;
+}
+
+/** Great-circle points between two positions, lifted by a sine profile */
+function arcCurve(arc: Arc, opts: ArcOptions): { curve: THREE.CatmullRomCurve3; segments: number } {
+    const a = latLonToVector3(arc.startLat, arc.startLon, 1);
+    const b = latLonToVector3(arc.endLat, arc.endLon, 1);
+    const angle = a.angleTo(b);
+    const height = Math.min(opts.maxHeight, angle * opts.heightFactor);
+    const segments = Math.max(8, Math.ceil(angle * SEGMENTS_PER_RADIAN));
+
+    // Axis for the great circle; antipodal/identical points fall back to any perpendicular
+    const axis = new THREE.Vector3().crossVectors(a, b);
+    if (axis.lengthSq() < 1e-10) axis.set(0, 1, 0).cross(a);
+    if (axis.lengthSq() < 1e-10) axis.set(1, 0, 0);
+    axis.normalize();
+
+    const points: THREE.Vector3[] = [];
+    for (let i = 0; i <= segments; i++) {
+        const t = i / segments;
+        const altitude = SURFACE_ALTITUDE + Math.sin(Math.PI * t) * height;
+        points.push(a.clone().applyAxisAngle(axis, angle * t).setLength(altitude));
+    }
+    return { curve: new THREE.CatmullRomCurve3(points), segments };
+}
+
+function toNumber(value: unknown): number {
+    return typeof value === 'number' ? value : parseFloat(String(value));
+}
+
+export function createArcLayer(globe: GlobeScene, options: Partial<ArcOptions> = {}): ArcLayer {
+    const opts = { ...DEFAULT_ARC_OPTIONS, ...options };
+    const { globeGroup } = globe;
+    const group = new THREE.Group();
+    globeGroup.add(group);
+
+    const entries = new Map<string, ArcEntry>();
+    // Shared by every arc material so one update animates them all
+    const time = { value: 0 };
+    const animated = { value: 1 };
+    let nextId = 0;
+
+    function createEntry(arc: Arc): ArcEntry {
+        const { curve, segments } = arcCurve(arc, opts);
+        const geometry = new THREE.TubeGeometry(curve, segments, BASE_WIDTH * (arc.width ?? 1), 6, false);
+        const material = new THREE.ShaderMaterial({
+            uniforms: {
+                uColor: { value: new THREE.Color(arc.color ?? DEFAULT_COLOR) },
+                uTime: time,
+                uDash: { value: opts.dashLength },
+                uGap: { value: opts.gapLength },
+                uSpeed: { value: opts.speed },
+                uAnimated: animated,
+            },
+            vertexShader: arcVertexShader,
+            fragmentShader: arcFragmentShader,
+            transparent: true,
+            depthWrite: false,
+            blending: THREE.AdditiveBlending,
+        });
+
+        const mesh = new THREE.Mesh(geometry, material);
+        mesh.userData.arcId = arc.id;
+        group.add(mesh);
+        return { arc, mesh };
+    }
+
+    function destroyEntry(entry: ArcEntry) {
+        group.remove(entry.mesh);
+        entry.mesh.geometry.dispose();
+        entry.mesh.material.dispose();
+    }
+
+    /** Normalize a JSON object or CSV row into an Arc, or null if it lacks coordinates */
+    function toArc(record: Record<string, unknown>): Arc | null {
+        const columns = (aliases: string[]) => pickColumn(record, ...aliases);
+        const startLat = toNumber(columns(['startlat', 'fromlat', 'originlat', 'srclat', 'lat1']));
+        const startLon = toNumber(columns(['startlon', 'startlng', 'fromlon', 'fromlng', 'originlon', 'originlng', 'srclon', 'lon1']));
+        const endLat = toNumber(columns(['endlat', 'tolat', 'destlat', 'destinationlat', 'dstlat', 'lat2']));
+        const endLon = toNumber(columns(['endlon', 'endlng', 'tolon', 'tolng', 'destlon', 'destlng', 'destinationlon', 'dstlon', 'lon2']));
+        if (![startLat, startLon, endLat, endLon].every(Number.isFinite)) return null;
+
+        const width = toNumber(columns(['width']));
+        const color = columns(['color', 'colour']);
+        const id = columns(['id']);
+        return {
+            id: id !== undefined && id !== '' ? String(id) : `arc-${nextId++}`,
+            startLat,
+            startLon,
+            endLat,
+            endLon,
+            color: typeof color === 'string' && color !== '' ? color : undefined,
+            width: Number.isFinite(width) && width > 0 ? width : undefined,
+            properties: record,
+        };
+    }
+
+    function addAll(arcs: (Arc | null)[]): number {
+        let count = 0;
+        for (const arc of arcs) {
+            if (!arc) continue;
+            layer.add(arc);
+            count++;
+        }
+        return count;
+    }
+
+    const unsubscribe = globe.onFrame(() => {
+        time.value = performance.now() / 1000;
+    });
+
+    const layer: ArcLayer = {
+        add(arc) {
+            const existing = entries.get(arc.id);
+            if (existing) destroyEntry(existing);
+            entries.set(arc.id, createEntry(arc));
+        },
+
+        remove(id) {
+            const entry = entries.get(id);
+            if (!entry) return;
+            destroyEntry(entry);
+            entries.delete(id);
+        },
+
+        clear() {
+            entries.forEach(destroyEntry);
+            entries.clear();
+        },
+
+        list: () => [...entries.values()].map((e) => e.arc),
+
+        loadJSON(data) {
+            const list = Array.isArray(data) ? data : (data as { arcs?: unknown })?.arcs;
+            if (!Array.isArray(list)) throw new Error('Arc data must be an array or { "arcs": [...] }');
+
+            return addAll(list.map((item) => toArc(item as Record<string, unknown>)));
+        },
+
+        loadCSV(text) {
+            return addAll(parseCSV(text).map(toArc));
+        },
+
+        setAnimated(value) {
+            animated.value = value ? 1 : 0;
+        },
+
+        setVisible(value) {
+            group.visible = value;
+        },
+
+        dispose() {
+            unsubscribe();
+            layer.clear();
+            globeGroup.remove(group);
+        },
+    };
+
+    return layer;
+}
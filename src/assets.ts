@@ -0,0 +1,235 @@
+/**
+ * Asset Manifest – Where textures and the hand tracking model come from
+ * Every asset lists a locally bundled copy first and remote mirrors after it,
+ * so installations without internet access work from the local build.
+ * Each load is recorded so the app can report what came from where.
+ */
+
+import * as THREE from 'three';
+import landUrl from 'world-atlas/land-110m.json?url';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+
+export type AssetOrigin = 'local' | 'remote' | 'generated' | 'missing';
+
+export interface AssetRecord {
+    name: string;
+    origin: AssetOrigin;
+    url: string | null; // null for generated or missing assets
+}
+
+export type TextureName = 'earth' | 'night' | 'bump' | 'spec' | 'clouds' | 'moon' | 'mars' | 'venus' | 'jupiter';
+
+const BASE = import.meta.env.BASE_URL;
+
+// Local copies live in public/textures: the Earth ones are committed, the other bodies
+// come from `npm run fetch-textures`. Remote mirrors are tried in order after them
+export const ASSET_MANIFEST: {
+    textures: Record<TextureName, string[]>;
+    mediapipeHands: string[];
+} = {
+    textures: {
+        earth: [
+            `${BASE}textures/earth-blue-marble.jpg`,
+            'https://cdn.jsdelivr.net/npm/three-globe/example/img/earth-blue-marble.jpg',
+            'https://unpkg.com/three-globe/example/img/earth-blue-marble.jpg',
+            'https://raw.githubusercontent.com/mrdoob/three.js/dev/examples/textures/planets/earth_atmos_2048.jpg',
+        ],
+        night: [
+            `${BASE}textures/earth-night.jpg`,
+            'https://cdn.jsdelivr.net/npm/three-globe/example/img/earth-night.jpg',
+            'https://unpkg.com/three-globe/example/img/earth-night.jpg',
+            'https://raw.githubusercontent.com/mrdoob/three.js/dev/examples/textures/planets/earth_lights_2048.png',
+        ],
+        bump: [
+            `${BASE}textures/earth-topology.png`,
+            'https://cdn.jsdelivr.net/npm/three-globe/example/img/earth-topology.png',
+            'https://unpkg.com/three-globe/example/img/earth-topology.png',
+            'https://raw.githubusercontent.com/mrdoob/three.js/dev/examples/textures/planets/earth_normal_2048.jpg',
+        ],
+        spec: [
+            `${BASE}textures/earth-water.png`,
+            'https://cdn.jsdelivr.net/npm/three-globe/example/img/earth-water.png',
+            'https://unpkg.com/three-globe/example/img/earth-water.png',
+            'https://raw.githubusercontent.com/mrdoob/three.js/dev/examples/textures/planets/earth_specular_2048.jpg',
+        ],
+        clouds: [
+            `${BASE}textures/earth-clouds.png`,
+            'https://cdn.jsdelivr.net/npm/three-globe/example/clouds/clouds.png',
+            'https://unpkg.com/three-globe/example/clouds/clouds.png',
+            'https://raw.githubusercontent.com/mrdoob/three.js/dev/examples/textures/planets/earth_clouds_1024.png',
+        ],
+        // Other bodies (see bodies.ts); Solar System Scope textures, CC BY 4.0
+        moon: [
+            `${BASE}textures/2k_moon.jpg`,
+            'https://www.solarsystemscope.com/textures/download/2k_moon.jpg',
+            'https://raw.githubusercontent.com/mrdoob/three.js/dev/examples/textures/planets/moon_1024.jpg',
+        ],
+        mars: [
+            `${BASE}textures/2k_mars.jpg`,
+            'https://www.solarsystemscope.com/textures/download/2k_mars.jpg',
+        ],
+        venus: [
+            `${BASE}textures/2k_venus_atmosphere.jpg`,
+            'https://www.solarsystemscope.com/textures/download/2k_venus_atmosphere.jpg',
+        ],
+        jupiter: [
+            `${BASE}textures/2k_jupiter.jpg`,
+            'https://www.solarsystemscope.com/textures/download/2k_jupiter.jpg',
+        ],
+    },
+    // Directories holding the MediaPipe Hands WASM, model and loader files.
+    // The local copy is served from node_modules by the Vite plugin in vite.config.ts
+    mediapipeHands: [
+        `${BASE}mediapipe/hands/`,
+        'https://cdn.jsdelivr.net/npm/@mediapipe/hands/',
+        'https://unpkg.com/@mediapipe/hands/',
+    ],
+};
+
+// File every MediaPipe Hands directory must contain; used to probe which one is reachable
+const MEDIAPIPE_PROBE_FILE = 'hands.binarypb';
+
+function originOf(url: string): AssetOrigin {
+    return new URL(url, window.location.href).origin === window.location.origin ? 'local' : 'remote';
+}
+
+/**
+ * Load the first texture in `urls` that succeeds. Resolves with a null texture
+ * (origin 'missing') when every URL fails – never rejects.
+ */
+export function loadTextureAsset(
+    loader: THREE.TextureLoader,
+    name: string,
+    urls: string[]
+): Promise<AssetRecord & { texture: THREE.Texture | null }> {
+    return new Promise((resolve) => {
+        let attempt = 0;
+
+        function tryNext() {
+            if (attempt >= urls.length) {
+                resolve({ name, origin: 'missing', url: null, texture: null });
+                return;
+            }
+            const url = urls[attempt];
+            attempt++;
+            loader.load(
+                url,
+                (texture) => resolve({ name, origin: originOf(url), url, texture }),
+                undefined,
+                () => {
+                    console.warn(`Failed to load: ${url}, trying next URL...`);
+                    tryNext();
+                }
+            );
+        }
+
+        tryNext();
+    });
+}
+
+/**
+ * First directory in `bases` that serves `probeFile`, or a 'missing' record
+ */
+export async function resolveAssetDirectory(
+    name: string,
+    bases: string[],
+    probeFile: string
+): Promise<AssetRecord> {
+    for (const base of bases) {
+        try {
+            const res = await fetch(`${base}${probeFile}`, { method: 'HEAD' });
+            // SPA hosts answer unknown paths with index.html, which isn't the file either
+            const isHtml = res.headers.get('Content-Type')?.includes('text/html');
+            if (res.ok && !isHtml) return { name, origin: originOf(base), url: base };
+        } catch {
+            // Unreachable mirror – try the next one
+        }
+        console.warn(`Asset directory unavailable: ${base}`);
+    }
+    return { name, origin: 'missing', url: null };
+}
+
+export function resolveMediaPipeHands(): Promise<AssetRecord> {
+    return resolveAssetDirectory('mediapipe-hands', ASSET_MANIFEST.mediapipeHands, MEDIAPIPE_PROBE_FILE);
+}
+
+// ========== Generated Fallback ==========
+
+/**
+ * Procedural Earth texture for when no image can be loaded: ocean shading,
+ * continents from the bundled Natural Earth land outlines, ice caps and a
+ * graticule. Without the land data it still draws a recognizable ocean globe.
+ */
+export async function generateEarthTexture(width = 2048, height = 1024): Promise<THREE.CanvasTexture> {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    const x = (lon: number) => ((lon + 180) / 360) * width;
+    const y = (lat: number) => ((90 - lat) / 180) * height;
+
+    // Ocean: deeper blue towards the equator
+    const ocean = ctx.createLinearGradient(0, 0, 0, height);
+    ocean.addColorStop(0, '#1d3f63');
+    ocean.addColorStop(0.5, '#0b2a4e');
+    ocean.addColorStop(1, '#1d3f63');
+    ctx.fillStyle = ocean;
+    ctx.fillRect(0, 0, width, height);
+
+    try {
+        const topology = (await (await fetch(landUrl)).json()) as Topology;
+        const land = feature(topology, topology.objects.land as GeometryCollection);
+
+        ctx.beginPath();
+        for (const { geometry: g } of land.features) {
+            const rings = g.type === 'Polygon' ? g.coordinates : g.type === 'MultiPolygon' ? g.coordinates.flat() : [];
+            for (const ring of rings) {
+                ring.forEach(([lon, lat], i) => (i === 0 ? ctx.moveTo(x(lon), y(lat)) : ctx.lineTo(x(lon), y(lat))));
+                ctx.closePath();
+            }
+        }
+
+        // Green lowlands fading to dry tones in the subtropics and white near the poles
+        const landFill = ctx.createLinearGradient(0, 0, 0, height);
+        landFill.addColorStop(0, '#f2f5f7');
+        landFill.addColorStop(0.12, '#dfe6ea');
+        landFill.addColorStop(0.2, '#4f6b3a');
+        landFill.addColorStop(0.35, '#9c8a5a');
+        landFill.addColorStop(0.5, '#3f6e34');
+        landFill.addColorStop(0.65, '#9c8a5a');
+        landFill.addColorStop(0.8, '#4f6b3a');
+        landFill.addColorStop(0.9, '#dfe6ea');
+        landFill.addColorStop(1, '#f2f5f7');
+        ctx.fillStyle = landFill;
+        ctx.fill('evenodd');
+    } catch (err) {
+        console.warn('Land outlines unavailable for the generated Earth texture:', err);
+    }
+
+    // Graticule every 30°
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+    ctx.lineWidth = 1;
+    for (let lon = -180; lon <= 180; lon += 30) {
+        ctx.beginPath();
+        ctx.moveTo(x(lon), 0);
+        ctx.lineTo(x(lon), height);
+        ctx.stroke();
+    }
+    for (let lat = -60; lat <= 60; lat += 30) {
+        ctx.beginPath();
+        ctx.moveTo(0, y(lat));
+        ctx.lineTo(width, y(lat));
+        ctx.stroke();
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+}
+
+/** One line per asset, e.g. "earth: local (/textures/earth-blue-marble.jpg)" */
+export function describeAssets(records: AssetRecord[]): string {
+    return records.map((r) => `${r.name}: ${r.origin}${r.url ? ` (${r.url})` : ''}`).join('\n');
+}
@@ -0,0 +1,152 @@
+/**
+ * Atmosphere – Fresnel glow around the globe
+ * A back-faced halo shell glows just outside the limb and a thin front-faced
+ * rim brightens the edge of the disc; both are strongest on the sunlit side.
+ * Output is real alpha with normal blending (not additive), so the glow
+ * composites correctly over the transparent canvas and the webcam behind it.
+ */
+
+import * as THREE from 'three';
+
+export interface AtmosphereOptions {
+    color: string; // any CSS color
+    thickness: number; // halo height in globe radii
+    intensity: number; // 0 = invisible, 1 = default
+    visible: boolean;
+}
+
+export interface Atmosphere {
+    object: THREE.Object3D;
+    setOptions: (options: Partial<AtmosphereOptions>) => void;
+    getOptions: () => AtmosphereOptions;
+    /** World-space direction towards the Sun (normalized) */
+    setSunDirection: (direction: THREE.Vector3) => void;
+    dispose: () => void;
+}
+
+export const DEFAULT_ATMOSPHERE_OPTIONS: AtmosphereOptions = {
+    color: '#4da6ff',
+    thickness: 0.15,
+    intensity: 1,
+    visible: true,
+};
+
+const RIM_RADIUS = 1.014; // just above the clouds
+const NIGHT_GLOW = 0.15; // share of the glow left on the night side
+
+const vertexShader = `
+    varying vec3 vWorldNormal;
+    varying vec3 vWorldPosition;
+    void main() {
+        vWorldNormal = normalize(mat3(modelMatrix) * normal);
+        vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+        vWorldPosition = worldPosition.xyz;
+        gl_Position = projectionMatrix * viewMatrix * worldPosition;
+    }
+`;
+
+const sharedFragment = `
+    uniform vec3 uColor;
+    uniform float uIntensity;
+    uniform vec3 uSunDirection;
+    varying vec3 vWorldNormal;
+    varying vec3 vWorldPosition;
+
+    float sunlit(vec3 normal) {
+        return mix(${NIGHT_GLOW.toFixed(2)}, 1.0, smoothstep(-0.35, 0.45, dot(normal, uSunDirection)));
+    }
+`;
+
+const haloFragmentShader = `
+    ${sharedFragment}
+    uniform float uLimb; // view-angle cosine at which the planet's limb sits on the shell
+    void main() {
+        vec3 normal = normalize(vWorldNormal);
+        vec3 viewDir = normalize(cameraPosition - vWorldPosition);
+        // Back faces: 0 at the outer edge of the shell, 1 where it meets the planet's limb
+        float t = clamp(-dot(normal, viewDir) / uLimb, 0.0, 1.0);
+        float alpha = pow(t, 3.0) * sunlit(normal) * uIntensity;
+        gl_FragColor = vec4(uColor, clamp(alpha, 0.0, 1.0));
+        #include <colorspace_fragment>
+    }
+`;
+
+const rimFragmentShader = `
+    ${sharedFragment}
+    void main() {
+        vec3 normal = normalize(vWorldNormal);
+        vec3 viewDir = normalize(cameraPosition - vWorldPosition);
+        float fresnel = pow(1.0 - max(dot(normal, viewDir), 0.0), 4.0);
+        float alpha = fresnel * 0.8 * sunlit(normal) * uIntensity;
+        gl_FragColor = vec4(uColor, clamp(alpha, 0.0, 1.0));
+        #include <colorspace_fragment>
+    }
+`;
+
+export function createAtmosphere(options: Partial<AtmosphereOptions> = {}): Atmosphere {
+    let opts: AtmosphereOptions = { ...DEFAULT_ATMOSPHERE_OPTIONS, ...options };
+
+    // Shared between both shells so one update drives them
+    const uniforms = {
+        uColor: { value: new THREE.Color(opts.color) },
+        uIntensity: { value: opts.intensity },
+        uSunDirection: { value: new THREE.Vector3(1, 0, 0) },
+    };
+    const uLimb = { value: 0.5 };
+
+    const haloMaterial = new THREE.ShaderMaterial({
+        uniforms: { ...uniforms, uLimb },
+        vertexShader,
+        fragmentShader: haloFragmentShader,
+        side: THREE.BackSide,
+        transparent: true,
+        depthWrite: false,
+    });
+    const rimMaterial = new THREE.ShaderMaterial({
+        uniforms,
+        vertexShader,
+        fragmentShader: rimFragmentShader,
+        transparent: true,
+        depthWrite: false,
+    });
+
+    const haloGeometry = new THREE.SphereGeometry(1, 96, 96);
+    const halo = new THREE.Mesh(haloGeometry, haloMaterial);
+    const rim = new THREE.Mesh(new THREE.SphereGeometry(RIM_RADIUS, 96, 96), rimMaterial);
+
+    const object = new THREE.Group();
+    object.add(halo, rim);
+
+    function apply() {
+        const radius = 1 + Math.max(0.01, opts.thickness);
+        halo.scale.setScalar(radius);
+        // Seen from afar, the planet's edge is where the shell's view cosine is sqrt(1 - 1/R²)
+        uLimb.value = Math.sqrt(1 - 1 / (radius * radius));
+        uniforms.uColor.value.set(opts.color);
+        uniforms.uIntensity.value = opts.intensity;
+        object.visible = opts.visible;
+    }
+    apply();
+
+    return {
+        object,
+
+        setOptions(next) {
+            opts = { ...opts, ...next };
+            apply();
+        },
+
+        getOptions: () => ({ ...opts }),
+
+        setSunDirection(direction) {
+            uniforms.uSunDirection.value.copy(direction);
+        },
+
+        dispose() {
+            haloGeometry.dispose();
+            rim.geometry.dispose();
+            haloMaterial.dispose();
+            rimMaterial.dispose();
+        },
+    };
+}
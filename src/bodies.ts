@@ -0,0 +1,113 @@
+/**
+ * Celestial Bodies – Registry of globes the scene can show
+ * Each body lists its textures (local-first URL lists, see assets.ts), display
+ * radius, optional clouds and atmosphere, and how fast it spins. The globe
+ * swaps between them with setBody(id).
+ */
+
+import type * as THREE from 'three';
+import { ASSET_MANIFEST, generateEarthTexture } from './assets';
+import type { AtmosphereOptions } from './atmosphere';
+
+export type BodyTextureSlot = 'day' | 'night' | 'bump' | 'spec' | 'clouds';
+
+export interface CelestialBody {
+    id: string;
+    name: string;
+    /** Shown in the HUD body switcher */
+    icon: string;
+    /** Display radius relative to the Earth globe (1) – compressed, not to scale */
+    radius: number;
+    /** URL lists tried in order; only `day` is needed */
+    textures: Partial<Record<BodyTextureSlot, string[]>>;
+    /** Surface color while no day texture is available */
+    color: string;
+    bumpScale?: number;
+    /** Glow settings on top of the defaults; null for airless bodies */
+    atmosphere: Partial<AtmosphereOptions> | null;
+    /** Auto-rotate speed relative to the Earth's; negative spins retrograde */
+    rotationRate: number;
+    /** Light from the real subsolar point at the simulated time (Earth only), else from the viewer's upper right */
+    realTimeSun?: boolean;
+    /** Texture to draw when no day image loads */
+    generateTexture?: () => Promise<THREE.Texture>;
+}
+
+const { textures } = ASSET_MANIFEST;
+
+const registry = new Map<string, CelestialBody>();
+
+export function registerBody(body: CelestialBody) {
+    registry.set(body.id, body);
+}
+
+export function getBody(id: string): CelestialBody | undefined {
+    return registry.get(id);
+}
+
+/** Bodies in registration order (the order the HUD cycles through) */
+export function listBodies(): CelestialBody[] {
+    return [...registry.values()];
+}
+
+// ========== Presets ==========
+
+registerBody({
+    id: 'earth',
+    name: 'Earth',
+    icon: '🌍',
+    radius: 1,
+    textures: { day: textures.earth, night: textures.night, bump: textures.bump, spec: textures.spec, clouds: textures.clouds },
+    color: '#1a4073',
+    bumpScale: 0.03,
+    atmosphere: {},
+    rotationRate: 1,
+    realTimeSun: true,
+    generateTexture: generateEarthTexture,
+});
+
+registerBody({
+    id: 'moon',
+    name: 'Moon',
+    icon: '🌕',
+    radius: 0.6,
+    textures: { day: textures.moon, bump: textures.moon },
+    color: '#8a8a8a',
+    bumpScale: 0.02,
+    atmosphere: null,
+    rotationRate: 0.037, // tidally locked: one turn per 27.3 days
+});
+
+registerBody({
+    id: 'mars',
+    name: 'Mars',
+    icon: '🔴',
+    radius: 0.75,
+    textures: { day: textures.mars, bump: textures.mars },
+    color: '#b5562f',
+    bumpScale: 0.02,
+    atmosphere: { color: '#e8a27a', thickness: 0.08, intensity: 0.6 },
+    rotationRate: 0.97,
+});
+
+registerBody({
+    id: 'venus',
+    name: 'Venus',
+    icon: '🟡',
+    radius: 0.95,
+    textures: { day: textures.venus },
+    color: '#d9b877',
+    atmosphere: { color: '#f2d69a', thickness: 0.2, intensity: 1.3 },
+    rotationRate: -0.004, // 243-day retrograde day
+});
+
+registerBody({
+    id: 'jupiter',
+    name: 'Jupiter',
+    icon: '🟠',
+    radius: 1.3,
+    textures: { day: textures.jupiter },
+    color: '#c9a27e',
+    atmosphere: { color: '#e6d3b8', thickness: 0.1, intensity: 0.7 },
+    rotationRate: 2.4, // ~10 hour day
+});
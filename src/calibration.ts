@@ -0,0 +1,340 @@
+/**
+ * Calibration – Personal gesture thresholds from a short guided session
+ * The wizard asks for an open hand, a fist and a pinch in turn, samples the
+ * hand features of each, and derives GestureThresholds from them. Results are
+ * saved as named profiles in localStorage; the active one is applied at startup.
+ */
+
+import {
+    DEFAULT_GESTURE_THRESHOLDS,
+    extractHandFeatures,
+    GestureThresholds,
+    HandFeatures,
+} from './gestures';
+import { createElement } from './dom';
+import type { HandTracker } from './handTracking';
+import type { LandmarkFrame } from './inputSources';
+
+export type CalibrationPose = 'open' | 'fist' | 'pinch';
+
+export type CalibrationSamples = Record<CalibrationPose, HandFeatures[]>;
+
+export interface CalibrationProfile {
+    name: string;
+    createdAt: string; // ISO timestamp
+    thresholds: GestureThresholds;
+}
+
+export interface CalibrationWizard {
+    /** Show the wizard and begin with the first pose */
+    start: () => void;
+    cancel: () => void;
+    isRunning: () => boolean;
+    /** Called after a profile is saved (it is also made active) */
+    onComplete: (listener: (profile: CalibrationProfile) => void) => () => void;
+    dispose: () => void;
+}
+
+export const CALIBRATION_POSES: CalibrationPose[] = ['open', 'fist', 'pinch'];
+
+const SAMPLES_PER_POSE = 45; // ~1.5 s of frames
+const MIN_SAMPLES = 15;
+const GET_READY_MS = 1500;
+// Calibrated pinch cut-offs stay within this factor of the defaults either way
+const PINCH_RANGE = 1.5;
+
+// ========== Deriving Thresholds ==========
+
+function quantile(values: number[], q: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+}
+
+function clamp(value: number, min: number, max: number) {
+    return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Turn sampled poses into thresholds. Quantiles rather than extremes, so a
+ * few mis-tracked frames don't skew the result. Hand size and finger counts
+ * only ever get looser than the defaults; the pinch cut-offs move either way,
+ * but stay within PINCH_RANGE of the defaults.
+ * Throws when a pose is missing or two poses can't be told apart.
+ */
+export function deriveThresholds(samples: CalibrationSamples): GestureThresholds {
+    for (const pose of CALIBRATION_POSES) {
+        if (samples[pose].length < MIN_SAMPLES) throw new Error(`Not enough ${pose} samples – keep your hand in view`);
+    }
+    const { open, fist, pinch } = samples;
+    const defaults = DEFAULT_GESTURE_THRESHOLDS;
+
+    // Half the hand size seen, so stepping back a little still tracks
+    const sizes = [...open, ...fist, ...pinch].map((f) => f.handSize);
+    const minHandSize = clamp(quantile(sizes, 0.1) * 0.5, 0.002, defaults.minHandSize);
+
+    // Fingers: most open frames must count as open, most fist frames as fist
+    const openUp = quantile(open.map((f) => f.fingersUp), 0.2);
+    const fistUp = quantile(fist.map((f) => f.fingersUp), 0.8);
+    if (openUp <= fistUp) throw new Error('Open hand and fist look the same – spread your fingers wider');
+    if (fistUp > 1) throw new Error('Fist shows too many fingers – curl them in as far as you can');
+    const fistMaxFingers = fistUp;
+    const openMinFingers = clamp(Math.min(openUp, defaults.openMinFingers), fistMaxFingers + 1, 4);
+
+    // Pinch: split the gap between pinched and open thumb–index distances
+    const pinched = quantile(pinch.map((f) => f.pinchDistance), 0.8);
+    const spread = quantile(open.map((f) => f.pinchDistance), 0.2);
+    if (spread <= pinched * 1.2) throw new Error('Pinch and open hand look the same – touch thumb and index together');
+    const pinchEnter = clamp(
+        pinched + (spread - pinched) * 0.4,
+        defaults.pinchEnter / PINCH_RANGE,
+        defaults.pinchEnter * PINCH_RANGE
+    );
+    const pinchExit = clamp(
+        pinched + (spread - pinched) * 0.6,
+        pinchEnter + 0.05,
+        Math.max(pinchEnter + 0.05, defaults.pinchExit * PINCH_RANGE)
+    );
+    // Clamping can push the cut-offs past the open hand, which would then read as a pinch or never release one
+    if (pinchExit >= spread) throw new Error('Open hand looks like a pinch – spread thumb and index further apart');
+
+    return {
+        minHandSize,
+        pinchEnter,
+        pinchExit,
+        openMinFingers,
+        openExitFingers: Math.max(openMinFingers - 1, fistMaxFingers + 1),
+        fistMaxFingers,
+        fistExitFingers: Math.max(fistMaxFingers, Math.min(fistMaxFingers + 1, openMinFingers - 1)),
+    };
+}
+
+// ========== Profiles ==========
+
+const STORAGE_KEY = 'hand-globe.calibration';
+
+interface StoredCalibration {
+    active: string | null;
+    profiles: CalibrationProfile[];
+}
+
+// localStorage may be unavailable (private mode, sandboxed iframes) – act as empty
+function readStore(): StoredCalibration {
+    try {
+        const data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (!data || !Array.isArray(data.profiles)) return { active: null, profiles: [] };
+        return {
+            active: typeof data.active === 'string' ? data.active : null,
+            profiles: data.profiles
+                .filter((p: CalibrationProfile) => p && typeof p.name === 'string')
+                .map((p: CalibrationProfile) => ({
+                    name: p.name,
+                    createdAt: p.createdAt ?? '',
+                    thresholds: { ...DEFAULT_GESTURE_THRESHOLDS, ...p.thresholds },
+                })),
+        };
+    } catch {
+        return { active: null, profiles: [] };
+    }
+}
+
+function writeStore(store: StoredCalibration) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    } catch (err) {
+        console.error('Could not save calibration profiles:', err);
+    }
+}
+
+export function listCalibrationProfiles(): CalibrationProfile[] {
+    return readStore().profiles;
+}
+
+export function getCalibrationProfile(name: string): CalibrationProfile | undefined {
+    return readStore().profiles.find((p) => p.name === name);
+}
+
+/** Add a profile, replacing any existing profile with the same name */
+export function saveCalibrationProfile(profile: CalibrationProfile) {
+    const store = readStore();
+    store.profiles = [...store.profiles.filter((p) => p.name !== profile.name), profile];
+    writeStore(store);
+}
+
+export function deleteCalibrationProfile(name: string) {
+    const store = readStore();
+    store.profiles = store.profiles.filter((p) => p.name !== name);
+    if (store.active === name) store.active = null;
+    writeStore(store);
+}
+
+/** The profile chosen last time, or null for the defaults */
+export function getActiveCalibration(): CalibrationProfile | null {
+    const store = readStore();
+    return store.profiles.find((p) => p.name === store.active) ?? null;
+}
+
+export function setActiveCalibration(name: string | null) {
+    writeStore({ ...readStore(), active: name });
+}
+
+// ========== Wizard ==========
+
+const POSE_PROMPTS: Record<CalibrationPose, { icon: string; text: string }> = {
+    open: { icon: '✋', text: 'Hold up an open hand, fingers spread as wide as is comfortable' },
+    fist: { icon: '✊', text: 'Now close it into a fist' },
+    pinch: { icon: '🤏', text: 'Now pinch – thumb and index finger touching' },
+};
+
+/**
+ * Guided calibration in `panel`: one step per pose, then a name to save the
+ * result under. Samples the first hand in view straight from the landmark
+ * frames, so it works whatever thresholds are currently active.
+ */
+export function createCalibrationWizard(tracker: HandTracker, panel: HTMLElement): CalibrationWizard {
+    const listeners = new Set<(profile: CalibrationProfile) => void>();
+    let running = false;
+    let step = 0;
+    let sampling = false;
+    let readyTimer: ReturnType<typeof setTimeout> | null = null;
+    let samples: CalibrationSamples = { open: [], fist: [], pinch: [] };
+
+    const icon = createElement('div', 'calibration-icon');
+    const title = createElement('div', 'calibration-title');
+    title.textContent = 'Calibrate gestures';
+    const text = createElement('p', 'calibration-text');
+    const progress = createElement('div', 'calibration-progress');
+    const progressFill = createElement('div', 'calibration-progress-fill');
+    progress.append(progressFill);
+    const nameInput = createElement('input', 'calibration-name');
+    nameInput.type = 'text';
+    nameInput.maxLength = 40;
+    nameInput.placeholder = 'Profile name';
+    const actions = createElement('div', 'calibration-actions');
+    const primary = createElement('button', 'calibration-primary');
+    primary.type = 'button';
+    const cancelButton = createElement('button', 'calibration-cancel');
+    cancelButton.type = 'button';
+    cancelButton.textContent = 'Cancel';
+    actions.append(primary, cancelButton);
+    panel.replaceChildren(icon, title, text, progress, nameInput, actions);
+    let primaryAction: (() => void) | null = null;
+
+    function show(options: { icon: string; text: string; progress?: number; name?: boolean; action?: [string, () => void] }) {
+        icon.textContent = options.icon;
+        text.textContent = options.text;
+        progress.style.display = options.progress === undefined ? 'none' : '';
+        progressFill.style.width = `${(options.progress ?? 0) * 100}%`;
+        nameInput.style.display = options.name ? '' : 'none';
+        primary.style.display = options.action ? '' : 'none';
+        primary.textContent = options.action?.[0] ?? '';
+        primaryAction = options.action?.[1] ?? null;
+    }
+
+    function clearTimer() {
+        if (readyTimer) clearTimeout(readyTimer);
+        readyTimer = null;
+    }
+
+    function beginPose(index: number) {
+        step = index;
+        sampling = false;
+        const prompt = POSE_PROMPTS[CALIBRATION_POSES[step]];
+        show({ ...prompt, text: `${prompt.text}…`, progress: 0 });
+        clearTimer();
+        // A moment to form the pose before sampling starts
+        readyTimer = setTimeout(() => {
+            sampling = true;
+            show({ ...prompt, progress: 0 });
+        }, GET_READY_MS);
+    }
+
+    function finish() {
+        sampling = false;
+        try {
+            const thresholds = deriveThresholds(samples);
+            const taken = new Set(listCalibrationProfiles().map((p) => p.name));
+            let n = taken.size + 1;
+            while (taken.has(`Profile ${n}`)) n++;
+            nameInput.value = `Profile ${n}`;
+            show({
+                icon: '✅',
+                text: 'Done! Name this profile to save it.',
+                name: true,
+                action: ['Save', () => save(thresholds)],
+            });
+            nameInput.focus();
+            nameInput.select();
+        } catch (err) {
+            show({ icon: '⚠️', text: (err as Error).message, action: ['Try again', start] });
+        }
+    }
+
+    function save(thresholds: GestureThresholds) {
+        const profile: CalibrationProfile = {
+            name: nameInput.value.trim() || 'My profile',
+            createdAt: new Date().toISOString(),
+            thresholds,
+        };
+        saveCalibrationProfile(profile);
+        setActiveCalibration(profile.name);
+        close();
+        listeners.forEach((listener) => listener(profile));
+    }
+
+    const offFrame = tracker.onFrame((frame: LandmarkFrame) => {
+        if (!running || !sampling) return;
+        const landmarks = frame.multiHandLandmarks?.[0];
+        // No size cutoff here: finding the right one is the point
+        const features = landmarks ? extractHandFeatures(landmarks, 0) : null;
+        if (!features) return;
+
+        const pose = CALIBRATION_POSES[step];
+        samples[pose].push(features);
+        progressFill.style.width = `${(samples[pose].length / SAMPLES_PER_POSE) * 100}%`;
+        if (samples[pose].length < SAMPLES_PER_POSE) return;
+
+        if (step + 1 < CALIBRATION_POSES.length) beginPose(step + 1);
+        else finish();
+    });
+
+    function start() {
+        running = true;
+        samples = { open: [], fist: [], pinch: [] };
+        panel.classList.add('visible');
+        beginPose(0);
+    }
+
+    function close() {
+        running = false;
+        sampling = false;
+        clearTimer();
+        panel.classList.remove('visible');
+    }
+
+    primary.addEventListener('click', () => primaryAction?.());
+    cancelButton.addEventListener('click', close);
+    nameInput.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') primaryAction?.();
+        if (e.key === 'Escape') close();
+    });
+
+    return {
+        start,
+        cancel: close,
+        isRunning: () => running,
+
+        onComplete(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+
+        dispose() {
+            close();
+            offFrame();
+            listeners.clear();
+            panel.replaceChildren();
+        },
+    };
+}
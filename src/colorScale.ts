@@ -0,0 +1,110 @@
+/**
+ * Color Scale – Map data values onto a color ramp
+ * Linear, logarithmic and quantile scales share one interface so data
+ * layers and the HUD legend don't care which one is in use.
+ */
+
+import * as THREE from 'three';
+
+export type ScaleType = 'linear' | 'log' | 'quantile';
+
+export interface ColorScaleOptions {
+    type: ScaleType;
+    /** Value range; defaults to the data's min/max */
+    domain?: [number, number];
+    /** Ramp stops from low to high (any CSS colors) */
+    colors: string[];
+    /** Number of classes for quantile scales */
+    classes: number;
+}
+
+export interface ColorScale {
+    type: ScaleType;
+    domain: [number, number];
+    /** Class boundaries for quantile scales (classes - 1 values); empty otherwise */
+    breaks: number[];
+    /** Position of a value along the ramp, 0..1 */
+    normalize: (value: number) => number;
+    /** sRGB color (0..255 per channel) of a value */
+    rgb: (value: number) => [number, number, number];
+    /** CSS color of a ramp position, 0..1 */
+    css: (t: number) => string;
+}
+
+export const DEFAULT_COLOR_SCALE_OPTIONS: ColorScaleOptions = {
+    type: 'linear',
+    colors: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'], // viridis
+    classes: 5,
+};
+
+function quantileBreaks(sorted: number[], classes: number): number[] {
+    const breaks: number[] = [];
+    for (let i = 1; i < classes; i++) {
+        const pos = (sorted.length - 1) * (i / classes);
+        const lo = Math.floor(pos);
+        const hi = Math.ceil(pos);
+        breaks.push(sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo));
+    }
+    return breaks;
+}
+
+export function createColorScale(values: number[], options: Partial<ColorScaleOptions> = {}): ColorScale {
+    const opts = { ...DEFAULT_COLOR_SCALE_OPTIONS, ...options };
+    const finite = values.filter(Number.isFinite).sort((a, b) => a - b);
+
+    let [min, max] = opts.domain ?? [finite[0] ?? 0, finite[finite.length - 1] ?? 1];
+    if (opts.type === 'log') {
+        // Log scales can't start at zero; use the smallest positive value instead
+        const smallestPositive = finite.find((v) => v > 0) ?? 1;
+        if (min <= 0) min = smallestPositive;
+        if (max <= min) max = min * 10;
+    } else if (max <= min) {
+        max = min + 1;
+    }
+
+    const breaks = opts.type === 'quantile' ? quantileBreaks(finite, Math.max(2, opts.classes)) : [];
+
+    // Ramp stops in sRGB 0..1, interpolated directly so colors match the CSS legend
+    const stops = opts.colors.map((c) => {
+        const rgb = { r: 0, g: 0, b: 0 };
+        new THREE.Color(c).getRGB(rgb, THREE.SRGBColorSpace);
+        return [rgb.r, rgb.g, rgb.b];
+    });
+
+    function rampAt(t: number): [number, number, number] {
+        const x = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+        const i = Math.max(0, Math.min(stops.length - 2, Math.floor(x)));
+        const f = x - i;
+        const a = stops[i];
+        const b = stops[i + 1] ?? a;
+        return [
+            Math.round((a[0] + (b[0] - a[0]) * f) * 255),
+            Math.round((a[1] + (b[1] - a[1]) * f) * 255),
+            Math.round((a[2] + (b[2] - a[2]) * f) * 255),
+        ];
+    }
+
+    function normalize(value: number): number {
+        if (opts.type === 'quantile') {
+            const cls = breaks.findIndex((b) => value <= b);
+            return (cls === -1 ? breaks.length : cls) / breaks.length;
+        }
+        if (opts.type === 'log') {
+            const v = Math.max(value, min);
+            return Math.min(1, Math.log(v / min) / Math.log(max / min));
+        }
+        return Math.min(1, Math.max(0, (value - min) / (max - min)));
+    }
+
+    return {
+        type: opts.type,
+        domain: [min, max],
+        breaks,
+        normalize,
+        rgb: (value) => rampAt(normalize(value)),
+        css(t) {
+            const [r, g, b] = rampAt(t);
+            return `rgb(${r}, ${g}, ${b})`;
+        },
+    };
+}
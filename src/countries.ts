@@ -0,0 +1,266 @@
+/**
+ * Country Borders – Boundary lines on the globe with hover highlight & selection
+ * Borders come from TopoJSON (bundled world-atlas data by default) or GeoJSON
+ * and sit just above the Earth surface, under the clouds. Point-in-polygon
+ * lookup answers "which country is at this lat/lon?".
+ */
+
+import * as THREE from 'three';
+import { feature, mesh } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import type { FeatureCollection, Geometry, GeoJsonProperties } from 'geojson';
+import type { GlobeScene } from './globe';
+import { latLonToVector3 } from './geo';
+import type { PickResolver } from './pointSelection';
+
+// Bundled Natural Earth 1:110m countries, emitted as a static asset by Vite
+export { default as DEFAULT_COUNTRIES_URL } from 'world-atlas/countries-110m.json?url';
+
+export interface Country {
+    id: string;
+    name: string;
+    properties: Record<string, unknown>;
+}
+
+export interface CountrySelectEvent {
+    country: Country;
+    lat: number;
+    lon: number;
+}
+
+export interface CountryLayer {
+    /** Replace the borders with a TopoJSON object (default object name: 'countries') */
+    loadTopoJSON: (topology: Topology, objectName?: string) => number;
+    /** Replace the borders with a GeoJSON FeatureCollection of (Multi)Polygons */
+    loadGeoJSON: (collection: FeatureCollection) => number;
+    countryAt: (lat: number, lon: number) => Country | null;
+    list: () => Country[];
+    /** Outline of a country as [lon, lat] rings (outer rings and holes, even-odd) */
+    getRings: (id: string) => number[][][] | null;
+    setHighlight: (id: string | null) => void;
+    getHighlight: () => Country | null;
+    /** Emit a selection event for the country at lat/lon (no-op over the ocean) */
+    selectAt: (lat: number, lon: number) => Country | null;
+    onSelect: (listener: (event: CountrySelectEvent) => void) => () => void;
+    /** Reports the country under a point selection */
+    pickResolver: PickResolver;
+    setVisible: (visible: boolean) => void;
+    dispose: () => void;
+}
+
+type Ring = number[][]; // [lon, lat] positions
+
+interface CountryEntry {
+    country: Country;
+    rings: Ring[]; // outer rings and holes of every polygon, tested even-odd
+    bbox: [number, number, number, number]; // minLon, minLat, maxLon, maxLat
+}
+
+const BORDER_ALTITUDE = 1.002; // above the Earth (1.0), below the clouds (1.012)
+const HIGHLIGHT_ALTITUDE = 1.003;
+const MAX_SEGMENT_DEG = 2; // subdivide longer edges so lines follow the curvature
+const BORDER_COLOR = 0xffffff;
+const BORDER_OPACITY = 0.35;
+const HIGHLIGHT_COLOR = 0xffd740;
+
+/** Edges the source data adds along the antimeridian cut or the south pole, which aren't real borders */
+function isArtificialEdge(a: number[], b: number[]): boolean {
+    const onCut = Math.abs(a[0]) > 179.99 && Math.abs(b[0]) > 179.99;
+    const atPole = a[1] < -89.99 && b[1] < -89.99;
+    return onCut || atPole;
+}
+
+/** Line segment positions for a set of [lon, lat] polylines */
+function buildSegments(lines: Ring[], radius: number): Float32Array {
+    const out: number[] = [];
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const p = new THREE.Vector3();
+    const q = new THREE.Vector3();
+
+    for (const line of lines) {
+        for (let i = 1; i < line.length; i++) {
+            const from = line[i - 1];
+            const to = line[i];
+            if (isArtificialEdge(from, to)) continue;
+
+            latLonToVector3(from[1], from[0], radius, a);
+            latLonToVector3(to[1], to[0], radius, b);
+            const steps = Math.max(1, Math.ceil(THREE.MathUtils.radToDeg(a.angleTo(b)) / MAX_SEGMENT_DEG));
+
+            p.copy(a);
+            for (let s = 1; s <= steps; s++) {
+                q.lerpVectors(a, b, s / steps).setLength(radius);
+                out.push(p.x, p.y, p.z, q.x, q.y, q.z);
+                p.copy(q);
+            }
+        }
+    }
+    return new Float32Array(out);
+}
+
+function polygonRings(geometry: Geometry | null): Ring[] {
+    if (!geometry) return [];
+    if (geometry.type === 'Polygon') return geometry.coordinates;
+    if (geometry.type === 'MultiPolygon') return geometry.coordinates.flat();
+    return [];
+}
+
+function ringsBBox(rings: Ring[]): [number, number, number, number] {
+    const bbox: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const ring of rings) {
+        for (const [lon, lat] of ring) {
+            bbox[0] = Math.min(bbox[0], lon);
+            bbox[1] = Math.min(bbox[1], lat);
+            bbox[2] = Math.max(bbox[2], lon);
+            bbox[3] = Math.max(bbox[3], lat);
+        }
+    }
+    return bbox;
+}
+
+/** Even-odd ray casting in the lon/lat plane; holes and multi-polygons fall out naturally */
+function containsPoint(rings: Ring[], lon: number, lat: number): boolean {
+    let inside = false;
+    for (const ring of rings) {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const [xi, yi] = ring[i];
+            const [xj, yj] = ring[j];
+            if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+                inside = !inside;
+            }
+        }
+    }
+    return inside;
+}
+
+function subscribe<T>(set: Set<T>, listener: T): () => void {
+    set.add(listener);
+    return () => {
+        set.delete(listener);
+    };
+}
+
+export function createCountryLayer(globe: GlobeScene): CountryLayer {
+    const { globeGroup } = globe;
+    const group = new THREE.Group();
+    globeGroup.add(group);
+
+    const borderMaterial = new THREE.LineBasicMaterial({
+        color: BORDER_COLOR,
+        transparent: true,
+        opacity: BORDER_OPACITY,
+        depthWrite: false,
+    });
+    const highlightMaterial = new THREE.LineBasicMaterial({
+        color: HIGHLIGHT_COLOR,
+        transparent: true,
+        depthWrite: false,
+    });
+
+    const borders = new THREE.LineSegments(new THREE.BufferGeometry(), borderMaterial);
+    const highlight = new THREE.LineSegments(new THREE.BufferGeometry(), highlightMaterial);
+    group.add(borders, highlight);
+
+    let entries: CountryEntry[] = [];
+    let highlighted: CountryEntry | null = null;
+    let visible = true;
+    const selectListeners = new Set<(event: CountrySelectEvent) => void>();
+
+    function setLines(target: THREE.LineSegments, lines: Ring[], radius: number) {
+        target.geometry.dispose();
+        target.geometry = new THREE.BufferGeometry();
+        target.geometry.setAttribute('position', new THREE.BufferAttribute(buildSegments(lines, radius), 3));
+    }
+
+    function setCountries(collection: FeatureCollection, borderLines: Ring[]): number {
+        entries = collection.features
+            .map((f, i): CountryEntry | null => {
+                const rings = polygonRings(f.geometry);
+                if (rings.length === 0) return null;
+                const props: GeoJsonProperties = f.properties ?? {};
+                const id = String(f.id ?? props.id ?? props.iso_a3 ?? `country-${i}`);
+                return {
+                    country: { id, name: String(props.name ?? props.NAME ?? id), properties: props },
+                    rings,
+                    bbox: ringsBBox(rings),
+                };
+            })
+            .filter((e): e is CountryEntry => e !== null);
+
+        setLines(borders, borderLines, BORDER_ALTITUDE);
+        layer.setHighlight(null);
+        return entries.length;
+    }
+
+    function findAt(lat: number, lon: number): CountryEntry | null {
+        for (const entry of entries) {
+            const [minLon, minLat, maxLon, maxLat] = entry.bbox;
+            if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) continue;
+            if (containsPoint(entry.rings, lon, lat)) return entry;
+        }
+        return null;
+    }
+
+    const layer: CountryLayer = {
+        loadTopoJSON(topology, objectName = 'countries') {
+            const object = topology.objects[objectName] as GeometryCollection | undefined;
+            if (!object) throw new Error(`TopoJSON has no object named "${objectName}"`);
+
+            // mesh() yields each shared border once instead of once per neighbour
+            return setCountries(
+                feature(topology, object) as FeatureCollection,
+                mesh(topology, object).coordinates
+            );
+        },
+
+        loadGeoJSON(collection) {
+            return setCountries(collection, collection.features.flatMap((f) => polygonRings(f.geometry)));
+        },
+
+        countryAt: (lat, lon) => findAt(lat, lon)?.country ?? null,
+        list: () => entries.map((e) => e.country),
+        getRings: (id) => entries.find((e) => e.country.id === id)?.rings ?? null,
+
+        setHighlight(id) {
+            const entry = id === null ? null : entries.find((e) => e.country.id === id) ?? null;
+            if (entry === highlighted) return;
+            highlighted = entry;
+            setLines(highlight, entry ? entry.rings : [], HIGHLIGHT_ALTITUDE);
+        },
+
+        getHighlight: () => highlighted?.country ?? null,
+
+        selectAt(lat, lon) {
+            const entry = findAt(lat, lon);
+            if (!entry) return null;
+            const event: CountrySelectEvent = { country: entry.country, lat, lon };
+            selectListeners.forEach((l) => l(event));
+            return entry.country;
+        },
+
+        onSelect: (listener) => subscribe(selectListeners, listener),
+
+        pickResolver(pick) {
+            if (!visible) return null;
+            const country = findAt(pick.lat, pick.lon)?.country;
+            return country ? { layer: 'countries', id: country.id, name: country.name, properties: country.properties } : null;
+        },
+
+        setVisible(value) {
+            visible = value;
+            group.visible = value;
+        },
+
+        dispose() {
+            selectListeners.clear();
+            globeGroup.remove(group);
+            borders.geometry.dispose();
+            highlight.geometry.dispose();
+            borderMaterial.dispose();
+            highlightMaterial.dispose();
+        },
+    };
+
+    return layer;
+}
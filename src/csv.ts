@@ -0,0 +1,79 @@
+/**
+ * CSV – Minimal parser for data files dropped onto the globe
+ * Handles quoted fields, escaped quotes ("") and CRLF line endings.
+ * The first row is the header.
+ */
+
+export type CsvRow = Record<string, string>;
+
+function parseRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                quoted = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',') {
+            row.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Blank lines
+    return rows.filter((r) => r.length > 1 || r[0].trim() !== '');
+}
+
+/**
+ * Parse CSV text into objects keyed by the (trimmed) header names
+ */
+export function parseCSV(text: string): CsvRow[] {
+    const [header, ...rows] = parseRows(text);
+    if (!header) return [];
+
+    const keys = header.map((h) => h.trim());
+    return rows.map((cells) => {
+        const row: CsvRow = {};
+        keys.forEach((key, i) => {
+            row[key] = (cells[i] ?? '').trim();
+        });
+        return row;
+    });
+}
+
+/**
+ * Value of the first column whose normalized name (lowercase, letters/digits only)
+ * matches one of the aliases, e.g. `pickColumn(row, 'lat', 'latitude')` finds "Latitude"
+ */
+export function pickColumn<T>(row: Record<string, T>, ...aliases: string[]): T | undefined {
+    for (const key of Object.keys(row)) {
+        const normalized = key.toLowerCase().replace(/[^a-z0-9]/g, '');
+        if (aliases.includes(normalized)) return row[key];
+    }
+    return undefined;
+}
@@ -0,0 +1,378 @@
+/**
+ * Data Layer – Heatmaps and choropleths painted over the Earth
+ * Point data (lat, lon, value) becomes a density heatmap; country data
+ * (code, value) fills each country's shape. Both are drawn into one
+ * equirectangular canvas texture on a shell just above the Earth, and a
+ * legend in the HUD explains the color scale.
+ */
+
+import * as THREE from 'three';
+import type { GlobeScene } from './globe';
+import type { CountryLayer } from './countries';
+import {
+    ColorScale,
+    ColorScaleOptions,
+    createColorScale,
+    DEFAULT_COLOR_SCALE_OPTIONS,
+    ScaleType,
+} from './colorScale';
+import { ISO_COUNTRY_CODES } from './isoCountryCodes';
+import { parseCSV, pickColumn } from './csv';
+
+export interface DataPoint {
+    lat: number;
+    lon: number;
+    value: number;
+}
+
+export interface CountryValue {
+    code: string; // ISO numeric, alpha-2, alpha-3 or country name
+    value: number;
+}
+
+export interface DataLayerOptions {
+    scale: ScaleType;
+    /** Range of the data values mapped onto the colors; defaults to the data's min/max */
+    domain?: [number, number];
+    colors: string[];
+    classes: number; // quantile classes
+    opacity: number;
+    radius: number; // heatmap kernel radius in degrees
+    title: string; // legend title
+}
+
+export type DataLayerMode = 'heatmap' | 'choropleth';
+
+export interface DataLayer {
+    showHeatmap: (points: DataPoint[], options?: Partial<DataLayerOptions>) => void;
+    /** Returns the codes that didn't match any country */
+    showChoropleth: (values: CountryValue[], options?: Partial<DataLayerOptions>) => string[];
+    /**
+     * Load CSV with lat/lon/value columns (→ heatmap) or country/code/iso + value columns (→ choropleth).
+     * Rows with a blank or non-numeric value are skipped; `unmatched` lists country codes that matched nothing
+     */
+    loadCSV: (text: string, options?: Partial<DataLayerOptions>) => { mode: DataLayerMode; unmatched: string[] };
+    /** Re-render the current data with changed scale, colors, opacity, ... */
+    setOptions: (options: Partial<DataLayerOptions>) => void;
+    getMode: () => DataLayerMode | null;
+    setVisible: (visible: boolean) => void;
+    clear: () => void;
+    dispose: () => void;
+}
+
+export const DEFAULT_DATA_LAYER_OPTIONS: DataLayerOptions = {
+    scale: DEFAULT_COLOR_SCALE_OPTIONS.type,
+    colors: DEFAULT_COLOR_SCALE_OPTIONS.colors,
+    classes: DEFAULT_COLOR_SCALE_OPTIONS.classes,
+    opacity: 0.75,
+    radius: 4,
+    title: 'Value',
+};
+
+const TEXTURE_WIDTH = 2048;
+const TEXTURE_HEIGHT = 1024;
+const HEAT_GRID_WIDTH = 512; // density is accumulated on a coarser grid, then upscaled smoothly
+const HEAT_GRID_HEIGHT = 256;
+const SHELL_RADIUS = 1.001; // above the Earth, below the country borders
+
+function toNumber(value: string | undefined): number {
+    return value === undefined ? NaN : parseFloat(value.replace(/,/g, ''));
+}
+
+function formatValue(v: number): string {
+    if (Math.abs(v) >= 1e9) return `${(v / 1e9).toFixed(1)}B`;
+    if (Math.abs(v) >= 1e6) return `${(v / 1e6).toFixed(1)}M`;
+    if (Math.abs(v) >= 1e3) return `${(v / 1e3).toFixed(1)}k`;
+    return Number.isInteger(v) ? String(v) : v.toFixed(2);
+}
+
+interface HeatGrid {
+    /** Gaussian-weighted point density (sum of kernel weights) */
+    density: Float32Array;
+    /** Kernel-weighted sum of the point values; divided by density it gives the local mean value */
+    weighted: Float32Array;
+}
+
+/** Accumulate the points on an equirectangular grid */
+function accumulateDensity(points: DataPoint[], radiusDeg: number): HeatGrid {
+    const density = new Float32Array(HEAT_GRID_WIDTH * HEAT_GRID_HEIGHT);
+    const weighted = new Float32Array(HEAT_GRID_WIDTH * HEAT_GRID_HEIGHT);
+    const ry = (radiusDeg / 180) * HEAT_GRID_HEIGHT;
+    const sigma2 = 2 * (ry / 2) ** 2;
+
+    for (const { lat, lon, value } of points) {
+        const cx = ((lon + 180) / 360) * HEAT_GRID_WIDTH;
+        const cy = ((90 - lat) / 180) * HEAT_GRID_HEIGHT;
+        // A degree of longitude shrinks towards the poles, so the kernel widens in grid space
+        const stretch = 1 / Math.max(0.05, Math.cos(THREE.MathUtils.degToRad(lat)));
+        const rx = Math.min(HEAT_GRID_WIDTH / 2, ry * stretch);
+
+        for (let y = Math.max(0, Math.floor(cy - ry)); y <= Math.min(HEAT_GRID_HEIGHT - 1, Math.ceil(cy + ry)); y++) {
+            const dy = y + 0.5 - cy;
+            for (let x = Math.floor(cx - rx); x <= Math.ceil(cx + rx); x++) {
+                const dx = (x + 0.5 - cx) / stretch;
+                const d2 = dx * dx + dy * dy;
+                if (d2 > ry * ry) continue;
+                const wrapped = ((x % HEAT_GRID_WIDTH) + HEAT_GRID_WIDTH) % HEAT_GRID_WIDTH; // across the antimeridian
+                const i = y * HEAT_GRID_WIDTH + wrapped;
+                const w = Math.exp(-d2 / sigma2);
+                density[i] += w;
+                weighted[i] += value * w;
+            }
+        }
+    }
+    return { density, weighted };
+}
+
+export function createDataLayer(globe: GlobeScene, countries: CountryLayer, legend: HTMLElement): DataLayer {
+    const { globeGroup } = globe;
+    let opts: DataLayerOptions = { ...DEFAULT_DATA_LAYER_OPTIONS };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = TEXTURE_WIDTH;
+    canvas.height = TEXTURE_HEIGHT;
+    const ctx = canvas.getContext('2d')!;
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    const material = new THREE.MeshBasicMaterial({
+        map: texture,
+        transparent: true,
+        opacity: opts.opacity,
+        depthWrite: false,
+    });
+    const shell = new THREE.Mesh(new THREE.SphereGeometry(SHELL_RADIUS, 96, 96), material);
+    shell.visible = false;
+    globeGroup.add(shell);
+
+    let mode: DataLayerMode | null = null;
+    let points: DataPoint[] = [];
+    let countryValues: CountryValue[] = [];
+
+    // ========== Country code lookup ==========
+    function countryIdFor(code: string): string | null {
+        const key = code.trim().toUpperCase();
+        const list = countries.list();
+
+        // Numeric ids are zero-padded to three digits in ISO 3166-1
+        const numeric = /^\d+$/.test(key) ? key.padStart(3, '0') : null;
+        const iso = numeric
+            ? numeric
+            : Object.keys(ISO_COUNTRY_CODES).find((n) => ISO_COUNTRY_CODES[n].includes(key));
+
+        const match =
+            list.find((c) => c.id === iso) ??
+            list.find((c) => c.name.toUpperCase() === key);
+        return match?.id ?? null;
+    }
+
+    // ========== Rendering ==========
+    function renderLegend(scale: ColorScale) {
+        legend.replaceChildren();
+
+        const title = document.createElement('div');
+        title.className = 'legend-title';
+        title.textContent = opts.title;
+
+        const bar = document.createElement('div');
+        bar.className = 'legend-bar';
+        const labels = document.createElement('div');
+        labels.className = 'legend-labels';
+
+        const [min, max] = scale.domain;
+        if (scale.type === 'quantile') {
+            // One swatch per class, with the class boundaries underneath
+            const classes = scale.breaks.length + 1;
+            const swatches = Array.from({ length: classes }, (_, i) => {
+                const t = i / (classes - 1);
+                return `${scale.css(t)} ${(i / classes) * 100}% ${((i + 1) / classes) * 100}%`;
+            });
+            bar.style.background = `linear-gradient(to right, ${swatches.join(', ')})`;
+            [min, ...scale.breaks, max].forEach((v) => {
+                const span = document.createElement('span');
+                span.textContent = formatValue(v);
+                labels.appendChild(span);
+            });
+        } else {
+            const stops = Array.from({ length: 8 }, (_, i) => scale.css(i / 7));
+            bar.style.background = `linear-gradient(to right, ${stops.join(', ')})`;
+            const mid = scale.type === 'log' ? Math.sqrt(min * max) : (min + max) / 2;
+            [min, mid, max].forEach((v) => {
+                const span = document.createElement('span');
+                span.textContent = formatValue(v);
+                labels.appendChild(span);
+            });
+        }
+
+        legend.append(title, bar, labels);
+        legend.classList.add('visible');
+    }
+
+    function scaleFor(values: number[]): ColorScale {
+        const scaleOptions: Partial<ColorScaleOptions> = {
+            type: opts.scale,
+            domain: opts.domain,
+            colors: opts.colors,
+            classes: opts.classes,
+        };
+        return createColorScale(values, scaleOptions);
+    }
+
+    function renderHeatmap() {
+        const { density, weighted } = accumulateDensity(points, opts.radius);
+        const peak = density.reduce((m, d) => Math.max(m, d), 0);
+
+        // Colors show the local mean value, so the scale and its domain are in data units.
+        // Without distinct values (every point counts once) the density itself is colored
+        const counting = points.every((p) => p.value === points[0].value);
+        const colorValue = (i: number) => (counting ? density[i] : weighted[i] / density[i]);
+        const scale = counting
+            ? scaleFor(Array.from(density).filter((d) => d > 0))
+            : scaleFor(points.map((p) => p.value));
+
+        const image = new ImageData(HEAT_GRID_WIDTH, HEAT_GRID_HEIGHT);
+        for (let i = 0; i < density.length; i++) {
+            const d = density[i];
+            if (d <= 0) continue;
+            const [r, g, b] = scale.rgb(colorValue(i));
+            // Opacity follows density so kernels fade out softly
+            const alpha = Math.min(1, Math.sqrt(d / peak) * 1.5);
+            image.data.set([r, g, b, Math.round(255 * alpha)], i * 4);
+        }
+
+        const grid = document.createElement('canvas');
+        grid.width = HEAT_GRID_WIDTH;
+        grid.height = HEAT_GRID_HEIGHT;
+        grid.getContext('2d')!.putImageData(image, 0, 0);
+
+        ctx.clearRect(0, 0, TEXTURE_WIDTH, TEXTURE_HEIGHT);
+        ctx.imageSmoothingEnabled = true;
+        ctx.drawImage(grid, 0, 0, TEXTURE_WIDTH, TEXTURE_HEIGHT);
+        renderLegend(scale);
+    }
+
+    function renderChoropleth(): string[] {
+        const unmatched: string[] = [];
+        const byCountry = new Map<string, number>();
+        for (const { code, value } of countryValues) {
+            const id = countryIdFor(code);
+            if (id === null) unmatched.push(code);
+            else byCountry.set(id, value);
+        }
+
+        const scale = scaleFor([...byCountry.values()]);
+        ctx.clearRect(0, 0, TEXTURE_WIDTH, TEXTURE_HEIGHT);
+
+        for (const [id, value] of byCountry) {
+            const rings = countries.getRings(id);
+            if (!rings) continue;
+
+            ctx.beginPath();
+            for (const ring of rings) {
+                ring.forEach(([lon, lat], i) => {
+                    const x = ((lon + 180) / 360) * TEXTURE_WIDTH;
+                    const y = ((90 - lat) / 180) * TEXTURE_HEIGHT;
+                    if (i === 0) ctx.moveTo(x, y);
+                    else ctx.lineTo(x, y);
+                });
+                ctx.closePath();
+            }
+            const [r, g, b] = scale.rgb(value);
+            ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+            ctx.fill('evenodd');
+        }
+
+        renderLegend(scale);
+        return unmatched;
+    }
+
+    function render(): string[] {
+        let unmatched: string[] = [];
+        if (mode === 'heatmap') renderHeatmap();
+        else if (mode === 'choropleth') unmatched = renderChoropleth();
+
+        material.opacity = opts.opacity;
+        texture.needsUpdate = true;
+        shell.visible = mode !== null;
+        return unmatched;
+    }
+
+    const layer: DataLayer = {
+        showHeatmap(data, options = {}) {
+            opts = { ...opts, ...options };
+            mode = 'heatmap';
+            points = data.filter((p) => Number.isFinite(p.lat) && Number.isFinite(p.lon) && Number.isFinite(p.value));
+            render();
+        },
+
+        showChoropleth(values, options = {}) {
+            opts = { ...opts, ...options };
+            mode = 'choropleth';
+            countryValues = values.filter((v) => Number.isFinite(v.value));
+            return render();
+        },
+
+        loadCSV(text, options = {}) {
+            const rows = parseCSV(text);
+            const valueColumns = ['value', 'val', 'count', 'amount', 'weight'];
+
+            const first = rows[0] ?? {};
+            if (pickColumn(first, 'lat', 'latitude') !== undefined) {
+                layer.showHeatmap(
+                    rows.map((row) => ({
+                        lat: toNumber(pickColumn(row, 'lat', 'latitude')),
+                        lon: toNumber(pickColumn(row, 'lon', 'lng', 'long', 'longitude')),
+                        // Without a value column every point counts once
+                        value: pickColumn(row, ...valueColumns) === undefined ? 1 : toNumber(pickColumn(row, ...valueColumns)),
+                    })),
+                    options
+                );
+                return { mode: 'heatmap', unmatched: [] };
+            }
+
+            if (pickColumn(first, 'country', 'code', 'iso', 'iso2', 'iso3', 'isoa2', 'isoa3', 'countrycode') === undefined) {
+                throw new Error('CSV needs lat/lon columns (heatmap) or a country/code column (choropleth)');
+            }
+
+            const unmatched = layer.showChoropleth(
+                rows.map((row) => ({
+                    code: pickColumn(row, 'code', 'iso', 'iso3', 'iso2', 'isoa3', 'isoa2', 'countrycode', 'country') ?? '',
+                    value: toNumber(pickColumn(row, ...valueColumns)),
+                })),
+                options
+            );
+            return { mode: 'choropleth', unmatched };
+        },
+
+        setOptions(options) {
+            opts = { ...opts, ...options };
+            render();
+        },
+
+        getMode: () => mode,
+
+        setVisible(value) {
+            shell.visible = value && mode !== null;
+            legend.classList.toggle('visible', value && mode !== null);
+        },
+
+        clear() {
+            mode = null;
+            points = [];
+            countryValues = [];
+            ctx.clearRect(0, 0, TEXTURE_WIDTH, TEXTURE_HEIGHT);
+            shell.visible = false;
+            legend.classList.remove('visible');
+        },
+
+        dispose() {
+            layer.clear();
+            globeGroup.remove(shell);
+            shell.geometry.dispose();
+            material.dispose();
+            texture.dispose();
+        },
+    };
+
+    return layer;
+}
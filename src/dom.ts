@@ -0,0 +1,24 @@
+/**
+ * DOM Helpers – Small element and download utilities shared by the panels
+ * Used by the settings panel, calibration wizard, tour captions, the
+ * embeddable globe and the JSON exports.
+ */
+
+export function createElement<K extends keyof HTMLElementTagNameMap>(tag: K, className: string): HTMLElementTagNameMap[K] {
+    const el = document.createElement(tag);
+    el.className = className;
+    return el;
+}
+
+/**
+ * Save a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,65 @@
+/**
+ * Event Bus – Typed publish/subscribe
+ * A module declares an event map (event name → payload type), keeps the bus
+ * to itself for emitting and hands out the EventSource side for subscribing.
+ */
+
+export interface EventSource<Events> {
+    /** Subscribe to one event type. Returns an unsubscribe function */
+    on: <K extends keyof Events>(type: K, listener: (event: Events[K]) => void) => () => void;
+    /** Like `on`, but only for the next event */
+    once: <K extends keyof Events>(type: K, listener: (event: Events[K]) => void) => () => void;
+}
+
+export interface EventBus<Events> extends EventSource<Events> {
+    emit: <K extends keyof Events>(type: K, event: Events[K]) => void;
+    /** Whether anyone listens, so costly payloads can be skipped */
+    has: (type: keyof Events) => boolean;
+    clear: () => void;
+}
+
+export function createEventBus<Events>(): EventBus<Events> {
+    const listeners = new Map<keyof Events, Set<(event: never) => void>>();
+
+    function on<K extends keyof Events>(type: K, listener: (event: Events[K]) => void) {
+        let set = listeners.get(type);
+        if (!set) {
+            set = new Set();
+            listeners.set(type, set);
+        }
+        set.add(listener);
+        return () => {
+            set.delete(listener);
+        };
+    }
+
+    return {
+        on,
+
+        once(type, listener) {
+            const off = on(type, (event) => {
+                off();
+                listener(event);
+            });
+            return off;
+        },
+
+        emit(type, event) {
+            const set = listeners.get(type) as Set<(event: Events[typeof type]) => void> | undefined;
+            set?.forEach((listener) => {
+                // One failing subscriber must not starve the others (or the render loop)
+                try {
+                    listener(event);
+                } catch (err) {
+                    console.error(`Error in "${String(type)}" listener:`, err);
+                }
+            });
+        },
+
+        has: (type) => (listeners.get(type)?.size ?? 0) > 0,
+
+        clear() {
+            listeners.clear();
+        },
+    };
+}
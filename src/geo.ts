@@ -0,0 +1,40 @@
+/**
+ * Geo Helpers – Convert between latitude/longitude and globe-space vectors
+ * Matches the UV layout of THREE.SphereGeometry, so points line up with
+ * equirectangular Earth textures (lon -180 at the texture's left edge)
+ */
+
+import * as THREE from 'three';
+
+export interface LatLon {
+    lat: number; // degrees, -90 (south) .. 90 (north)
+    lon: number; // degrees, -180 (west) .. 180 (east)
+}
+
+const DEG = Math.PI / 180;
+
+/**
+ * Position of a lat/lon on a sphere of the given radius, in the globe's local space
+ */
+export function latLonToVector3(lat: number, lon: number, radius = 1, target = new THREE.Vector3()): THREE.Vector3 {
+    const phi = (lon + 180) * DEG; // SphereGeometry's horizontal angle
+    const theta = (90 - lat) * DEG; // polar angle from the north pole
+    return target.set(
+        -radius * Math.cos(phi) * Math.sin(theta),
+        radius * Math.cos(theta),
+        radius * Math.sin(phi) * Math.sin(theta)
+    );
+}
+
+/**
+ * Lat/lon of a point in the globe's local space (any distance from the center)
+ */
+export function vector3ToLatLon(v: THREE.Vector3): LatLon {
+    const r = v.length();
+    if (r === 0) return { lat: 0, lon: 0 };
+
+    const lat = 90 - Math.acos(Math.max(-1, Math.min(1, v.y / r))) / DEG;
+    let lon = Math.atan2(v.z, -v.x) / DEG - 180;
+    if (lon < -180) lon += 360;
+    return { lat, lon };
+}
@@ -0,0 +1,407 @@
+/**
+ * Gesture Bindings – Maps gestures to GlobeControls actions
+ * A binding profile (JSON) lists which poses, two-hand combos or motion
+ * gestures drive which action, each with its own sensitivity, dead zone
+ * and smoothing. The first matching pose binding wins each frame.
+ */
+
+import type { GlobeControls } from './globe';
+import { createGestureRegistry, GestureRegistry, GestureType } from './gestures';
+import type { HandState, TrackedHand } from './handTracking';
+import type { HandSide } from './handIdentity';
+import type { MotionDirection, MotionGestureEvent, MotionGestureType } from './motionGestures';
+
+export type BindingAction =
+    | 'rotate' | 'zoom' | 'move' | 'autoRotate' | 'spin' | 'resetView' | 'scrubTime' | 'cycleBody';
+
+export interface GestureBinding {
+    /** Poses to hold, one per hand (1 or 2 entries, any order). Omit for motion bindings */
+    gestures?: GestureType[];
+    /** Restrict a one-hand binding to the left or right hand */
+    handedness?: HandSide;
+    /** Fire once on a motion gesture; `gestures` lists poses the moving hand may hold */
+    motion?: {
+        type: MotionGestureType;
+        direction?: MotionDirection | MotionDirection[];
+        gestures?: GestureType[];
+    };
+    action: BindingAction;
+    /** Gain applied to the input delta (scrubTime: hours per screen width) */
+    sensitivity?: number;
+    /** Input deltas smaller than this are ignored */
+    deadZone?: number;
+    /** 0 = raw input, closer to 1 = smoother */
+    smoothing?: number;
+    /** Clamp on the per-frame input delta (zoom) or velocity (spin) */
+    maxDelta?: number;
+    /** move only: rotate the globe this much while dragging it (0 = off) */
+    rotateSensitivity?: number;
+}
+
+export interface BindingProfile {
+    name: string;
+    bindings: GestureBinding[];
+    /** Fall back to auto-rotate once no binding is active (default true) */
+    idleAutoRotate?: boolean;
+}
+
+export interface BindingEngine {
+    /** Apply pose bindings for this frame */
+    update: (state: HandState) => void;
+    /** Apply motion bindings for a recognized swipe/circle/flick, unless the hand drives a pose binding */
+    handleMotion: (event: MotionGestureEvent, state: HandState) => void;
+    /** The pose binding applied in the last update, if any */
+    getActiveBinding: () => GestureBinding | null;
+    /** Drop the active binding and its reference points (e.g. while another input has priority) */
+    reset: () => void;
+    setProfile: (profile: BindingProfile) => void;
+    getProfile: () => BindingProfile;
+    /** Multiply the sensitivity of every binding for `action` (1 = as in the profile) */
+    setGain: (action: BindingAction, gain: number) => void;
+}
+
+const DEFAULT_ZOOM = 3.5;
+
+export const DEFAULT_BINDING_PROFILE: BindingProfile = {
+    name: 'default',
+    idleAutoRotate: true,
+    bindings: [
+        // 🤲 TWO HANDS OPEN → GRAB & MOVE GLOBE
+        { gestures: ['open', 'open'], action: 'move', deadZone: 0.002, smoothing: 0.7, rotateSensitivity: 3 },
+        // ✋ OPEN HAND → ROTATE GLOBE
+        { gestures: ['open'], action: 'rotate', sensitivity: 5, deadZone: 0.002, smoothing: 0.6 },
+        // 🤏 PINCH → ZOOM using pinch distance change
+        { gestures: ['pinch'], action: 'zoom', sensitivity: 15, deadZone: 0.005, maxDelta: 0.08 },
+        // ✊ FIST → STOP, AUTO ROTATE
+        { gestures: ['fist'], action: 'autoRotate' },
+        // 🤘 ROCK + MOVE SIDEWAYS → SCRUB THE DAY/NIGHT CLOCK
+        { gestures: ['rock'], action: 'scrubTime', sensitivity: 24, deadZone: 0.002 },
+        // 👋 SWIPE (relaxed hand) → SPIN WITH MOMENTUM
+        // Not with an open hand: a fast rotate drag is itself a swipe
+        {
+            motion: { type: 'swipe', direction: ['left', 'right'], gestures: ['none'] },
+            action: 'spin',
+            sensitivity: 0.03,
+            maxDelta: 0.12,
+        },
+        // ☝️ DRAW A CIRCLE → RESET VIEW
+        { motion: { type: 'circle', gestures: ['point'] }, action: 'resetView' },
+        // ☝️ FLICK RIGHT / LEFT → NEXT / PREVIOUS CELESTIAL BODY
+        { motion: { type: 'flick', direction: ['left', 'right'], gestures: ['point'] }, action: 'cycleBody' },
+    ],
+};
+
+// ========== Profile Loading ==========
+
+const ACTIONS: BindingAction[] = ['rotate', 'zoom', 'move', 'autoRotate', 'spin', 'resetView', 'scrubTime', 'cycleBody'];
+const MOTIONS: MotionGestureType[] = ['swipe', 'circle', 'flick'];
+const NUMERIC_FIELDS = ['sensitivity', 'deadZone', 'smoothing', 'maxDelta', 'rotateSensitivity'] as const;
+
+/**
+ * Parse and validate a binding profile. Poses must be 'none' or registered in
+ * `registry` (default: the built-in gestures). Throws with a readable message
+ * pointing at the offending binding.
+ */
+export function parseBindingProfile(json: string, registry: GestureRegistry = createGestureRegistry()): BindingProfile {
+    const data = JSON.parse(json);
+    if (!data || typeof data !== 'object' || !Array.isArray(data.bindings)) {
+        throw new Error('Not a binding profile: missing "bindings"');
+    }
+
+    function checkPoses(i: number, poses: unknown) {
+        if (poses === undefined) return;
+        if (!Array.isArray(poses)) throw new Error(`Binding ${i}: "gestures" must be a list of poses`);
+        for (const pose of poses) {
+            if (pose !== 'none' && (typeof pose !== 'string' || !registry.get(pose))) {
+                throw new Error(`Binding ${i}: unknown gesture "${pose}"`);
+            }
+        }
+    }
+
+    data.bindings.forEach((b: GestureBinding, i: number) => {
+        if (!b || typeof b !== 'object') throw new Error(`Binding ${i}: not an object`);
+        if (!ACTIONS.includes(b.action)) {
+            throw new Error(`Binding ${i}: unknown action "${b.action}"`);
+        }
+        if (!b.motion && (!Array.isArray(b.gestures) || b.gestures.length < 1 || b.gestures.length > 2)) {
+            throw new Error(`Binding ${i}: "gestures" must list one or two poses`);
+        }
+        if (b.motion && !MOTIONS.includes(b.motion.type)) {
+            throw new Error(`Binding ${i}: unknown motion "${b.motion.type}"`);
+        }
+        checkPoses(i, b.gestures);
+        checkPoses(i, b.motion?.gestures);
+        for (const field of NUMERIC_FIELDS) {
+            if (b[field] !== undefined && (typeof b[field] !== 'number' || !Number.isFinite(b[field]))) {
+                throw new Error(`Binding ${i}: "${field}" must be a number`);
+            }
+        }
+    });
+
+    return { name: data.name ?? 'custom', idleAutoRotate: data.idleAutoRotate ?? true, bindings: data.bindings };
+}
+
+export async function loadBindingProfile(url: string, registry?: GestureRegistry): Promise<BindingProfile> {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Failed to load binding profile ${url}: ${res.status}`);
+    return parseBindingProfile(await res.text(), registry);
+}
+
+// ========== Matching ==========
+
+/** Find the hands that satisfy a pose binding, or null */
+function matchHands(binding: GestureBinding, hands: TrackedHand[]): TrackedHand[] | null {
+    const gestures = binding.gestures;
+    if (!gestures) return null;
+
+    if (gestures.length === 1) {
+        // Pose bindings follow the primary hand unless handedness picks one
+        const hand = binding.handedness
+            ? hands.find((h) => h.handedness === binding.handedness)
+            : hands[0];
+        return hand && hand.gesture === gestures[0] ? [hand] : null;
+    }
+
+    const [a, b] = hands;
+    if (!a || !b) return null;
+    if (a.gesture === gestures[0] && b.gesture === gestures[1]) return [a, b];
+    if (a.gesture === gestures[1] && b.gesture === gestures[0]) return [b, a];
+    return null;
+}
+
+function includesOrEquals<T>(allowed: T | T[] | undefined, value: T): boolean {
+    if (allowed === undefined) return true;
+    return Array.isArray(allowed) ? allowed.includes(value) : allowed === value;
+}
+
+// ========== Engine ==========
+
+export function createBindingEngine(
+    controls: GlobeControls,
+    initialProfile: BindingProfile = DEFAULT_BINDING_PROFILE
+): BindingEngine {
+    let profile = initialProfile;
+    const gains: Partial<Record<BindingAction, number>> = {};
+    let active: GestureBinding | null = null;
+    let activeHandIds = '';
+    let isGestureActive = false;
+
+    let prevX: number | null = null;
+    let prevY: number | null = null;
+    let prevPinchDist: number | null = null;
+
+    // Smoothed deltas
+    let smoothRotX = 0;
+    let smoothRotY = 0;
+
+    function resetTracking() {
+        prevX = null;
+        prevY = null;
+        prevPinchDist = null;
+    }
+
+    /** Per-frame delta of a tracked point; null on the first frame */
+    function trackDelta(x: number, y: number) {
+        const delta = prevX !== null && prevY !== null ? { dx: x - prevX, dy: y - prevY } : null;
+        prevX = x;
+        prevY = y;
+        return delta;
+    }
+
+    function smoothRotate(dx: number, dy: number, gain: number, smoothing: number) {
+        smoothRotY += (-dx * gain - smoothRotY) * (1 - smoothing);
+        smoothRotX += (dy * gain - smoothRotX) * (1 - smoothing);
+        controls.rotateY(smoothRotY);
+        controls.rotateX(smoothRotX);
+    }
+
+    function applyPose(binding: GestureBinding, hands: TrackedHand[]) {
+        const sensitivity = (binding.sensitivity ?? 1) * (gains[binding.action] ?? 1);
+        const deadZone = binding.deadZone ?? 0;
+        const smoothing = binding.smoothing ?? 0;
+
+        switch (binding.action) {
+            case 'move': {
+                controls.setAutoRotate(false);
+
+                // Midpoint between the palms; moved by delta (not absolute) — prevents jump on entry
+                const midX = hands.reduce((sum, h) => sum + h.palmCenter.x, 0) / hands.length;
+                const midY = hands.reduce((sum, h) => sum + h.palmCenter.y, 0) / hands.length;
+                const delta = trackDelta(midX, midY);
+
+                if (delta && (Math.abs(delta.dx) > deadZone || Math.abs(delta.dy) > deadZone)) {
+                    controls.movePosition(delta.dx * sensitivity, delta.dy * sensitivity);
+                    if (binding.rotateSensitivity) {
+                        smoothRotate(delta.dx, delta.dy, binding.rotateSensitivity, smoothing);
+                    }
+                }
+                isGestureActive = true;
+                break;
+            }
+
+            case 'rotate': {
+                controls.setAutoRotate(false);
+
+                const palm = hands[0].palmCenter;
+                const delta = trackDelta(palm.x, palm.y);
+                if (delta) {
+                    if (Math.abs(delta.dx) > deadZone || Math.abs(delta.dy) > deadZone) {
+                        smoothRotate(delta.dx, delta.dy, sensitivity, smoothing);
+                    } else {
+                        smoothRotX *= 0.8;
+                        smoothRotY *= 0.8;
+                    }
+                }
+                isGestureActive = true;
+                break;
+            }
+
+            case 'zoom': {
+                controls.setAutoRotate(false);
+
+                const currentPinchDist = hands[0].pinchDistance;
+                if (prevPinchDist !== null) {
+                    const maxDelta = binding.maxDelta ?? Infinity;
+                    const delta = Math.max(-maxDelta, Math.min(maxDelta, currentPinchDist - prevPinchDist));
+                    if (Math.abs(delta) > deadZone) {
+                        controls.setZoom(controls.getZoom() - delta * sensitivity);
+                    }
+                }
+                prevPinchDist = currentPinchDist;
+                isGestureActive = true;
+                break;
+            }
+
+            case 'scrubTime': {
+                controls.setAutoRotate(false);
+
+                // Hand moving right on screen (x decreases – the frame is mirrored) runs time forward
+                const delta = trackDelta(hands[0].palmCenter.x, hands[0].palmCenter.y);
+                if (delta && Math.abs(delta.dx) > deadZone) {
+                    controls.shiftTime(-delta.dx * sensitivity * 3_600_000);
+                }
+                isGestureActive = true;
+                break;
+            }
+
+            case 'autoRotate': {
+                controls.setAutoRotate(true);
+                controls.stopMomentum();
+                smoothRotX = 0;
+                smoothRotY = 0;
+                isGestureActive = false;
+                break;
+            }
+
+            case 'spin':
+            case 'resetView':
+            case 'cycleBody':
+                // One-shot actions, only meaningful as motion bindings
+                break;
+        }
+    }
+
+    function applyIdle() {
+        if (profile.idleAutoRotate === false) return;
+
+        // Let the last movement settle before auto-rotate takes over again
+        if (isGestureActive) {
+            smoothRotX *= 0.85;
+            smoothRotY *= 0.85;
+            if (Math.abs(smoothRotX) < 0.0001 && Math.abs(smoothRotY) < 0.0001) {
+                controls.setAutoRotate(true);
+                isGestureActive = false;
+            }
+        } else {
+            controls.setAutoRotate(true);
+        }
+    }
+
+    return {
+        update(state) {
+            let binding: GestureBinding | null = null;
+            let matched: TrackedHand[] | null = null;
+            for (const b of profile.bindings) {
+                matched = matchHands(b, state.hands);
+                if (matched) {
+                    binding = b;
+                    break;
+                }
+            }
+
+            // Switching binding or hand: the old reference point is meaningless (prevents jumps)
+            const handIds = matched?.map((h) => h.id).join(',') ?? '';
+            if (binding !== active || handIds !== activeHandIds) {
+                // Letting go after rotating flings the globe like a real one
+                if (active?.action === 'rotate') controls.fling();
+                resetTracking();
+                active = binding;
+                activeHandIds = handIds;
+            }
+
+            if (binding && matched) applyPose(binding, matched);
+            else applyIdle();
+        },
+
+        handleMotion(event, state) {
+            const hand = state.hands.find((h) => h.id === event.hand);
+            if (!hand) return;
+            // A hand already rotating, zooming or moving the globe would fight its own motion binding
+            if (active && activeHandIds.split(',').includes(String(hand.id))) return;
+
+            const binding = profile.bindings.find((b) =>
+                b.motion
+                && b.motion.type === event.type
+                && includesOrEquals(b.motion.direction, event.direction)
+                && includesOrEquals(b.motion.gestures, hand.gesture)
+            );
+            if (!binding) return;
+
+            switch (binding.action) {
+                case 'spin': {
+                    const maxDelta = binding.maxDelta ?? Infinity;
+                    const gain = (binding.sensitivity ?? 1) * (gains.spin ?? 1);
+                    const spin = Math.max(-maxDelta, Math.min(maxDelta, event.velocity.x * gain));
+                    controls.setAngularVelocity(0, spin);
+                    break;
+                }
+                case 'resetView':
+                    controls.stopMomentum();
+                    controls.resetPosition();
+                    controls.setZoom(DEFAULT_ZOOM);
+                    break;
+                case 'autoRotate':
+                    controls.stopMomentum();
+                    controls.setAutoRotate(true);
+                    break;
+                case 'cycleBody':
+                    controls.cycleBody(event.direction === 'left' || event.direction === 'down' ? -1 : 1);
+                    break;
+                default:
+                    // Continuous actions need a held pose
+                    break;
+            }
+        },
+
+        getActiveBinding: () => active,
+
+        reset() {
+            active = null;
+            activeHandIds = '';
+            resetTracking();
+        },
+
+        setProfile(next) {
+            profile = next;
+            active = null;
+            activeHandIds = '';
+            resetTracking();
+        },
+
+        getProfile: () => profile,
+
+        setGain(action, gain) {
+            gains[action] = gain;
+        },
+    };
+}
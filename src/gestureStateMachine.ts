@@ -0,0 +1,103 @@
+/**
+ * Gesture State Machine – Per-hand temporal filtering of gestures
+ * Turns noisy per-frame classifications into stable gestures with
+ * dwell times, a confidence score and start/hold/end events
+ */
+
+import type { GestureType } from './gestures';
+
+export interface GestureTiming {
+    enterMs: number; // candidate must persist this long before it starts
+    exitMs: number; // active gesture must be missing this long before it ends
+}
+
+export interface GestureEvent {
+    hand: number;
+    gesture: GestureType;
+    confidence: number; // 0..1, how consistently the gesture has been observed
+    durationMs: number; // time since the gesture started (0 on start)
+}
+
+export interface GestureStateEvents {
+    onStart?: (event: GestureEvent) => void;
+    /** Fired on every update while a gesture stays active */
+    onHold?: (event: GestureEvent) => void;
+    onEnd?: (event: GestureEvent) => void;
+}
+
+export interface GestureStateMachine {
+    /** Feed this frame's classification; `now` is a timestamp in ms */
+    update: (candidate: GestureType, now: number) => void;
+    getGesture: () => GestureType;
+    getConfidence: () => number;
+    /** End any active gesture immediately (e.g. the hand left the frame) */
+    reset: (now: number) => void;
+}
+
+export const DEFAULT_GESTURE_TIMING: GestureTiming = { enterMs: 50, exitMs: 80 };
+
+// Weight of the newest frame in the confidence moving average
+const CONFIDENCE_SMOOTHING = 0.2;
+
+export function createGestureStateMachine(
+    hand: number,
+    getTiming: (gesture: GestureType) => GestureTiming,
+    events: GestureStateEvents = {}
+): GestureStateMachine {
+    let active: GestureType = 'none';
+    let activeSince = 0;
+    let lastSeenActive = 0;
+    let pending: GestureType | null = null;
+    let pendingSince = 0;
+    let confidence = 0;
+
+    function event(gesture: GestureType, now: number): GestureEvent {
+        return { hand, gesture, confidence, durationMs: now - activeSince };
+    }
+
+    function transition(next: GestureType, now: number) {
+        if (active !== 'none') events.onEnd?.(event(active, now));
+
+        active = next;
+        activeSince = now;
+        lastSeenActive = now;
+        pending = null;
+        // The new gesture has been seen consistently for its whole dwell time
+        confidence = next === 'none' ? 0 : 0.5;
+
+        if (active !== 'none') events.onStart?.(event(active, now));
+    }
+
+    return {
+        update(candidate, now) {
+            confidence += ((candidate === active ? 1 : 0) - confidence) * CONFIDENCE_SMOOTHING;
+
+            if (candidate === active) {
+                pending = null;
+                lastSeenActive = now;
+            } else {
+                if (candidate !== pending) {
+                    pending = candidate;
+                    pendingSince = now;
+                }
+
+                const exitMs = active === 'none' ? 0 : getTiming(active).exitMs;
+                const enterMs = candidate === 'none' ? 0 : getTiming(candidate).enterMs;
+                if (now - lastSeenActive >= exitMs && now - pendingSince >= enterMs) {
+                    transition(candidate, now);
+                    return;
+                }
+            }
+
+            if (active !== 'none') events.onHold?.(event(active, now));
+        },
+
+        getGesture: () => active,
+        getConfidence: () => confidence,
+
+        reset(now) {
+            if (active !== 'none') transition('none', now);
+            pending = null;
+        },
+    };
+}
@@ -0,0 +1,307 @@
+/**
+ * Gesture Vocabulary – Declarative rule registry for static hand poses
+ * Each gesture is a rule over finger extension, pinch distance and
+ * hand orientation. The highest-priority matching rule wins.
+ */
+
+import type { NormalizedLandmark } from '@mediapipe/hands';
+
+export type BuiltInGesture = 'open' | 'pinch' | 'fist' | 'point' | 'peace' | 'thumbsUp' | 'rock' | 'ok';
+
+// `string & {}` keeps editor completion for built-ins while allowing custom names
+export type GestureType = BuiltInGesture | 'none' | (string & {});
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+/** Direction the hand points, from wrist to middle finger base (image space) */
+export type HandOrientation = 'up' | 'down' | 'left' | 'right';
+
+/** Where the thumb tip points relative to its base; 'folded' when not extended */
+export type ThumbDirection = 'up' | 'down' | 'side' | 'folded';
+
+export interface HandFeatures {
+    fingers: Record<FingerName, boolean>;
+    fingersUp: number; // extended fingers, thumb excluded
+    pinchDistance: number; // thumb–index distance / hand size (0 = touching)
+    handSize: number; // wrist → middle finger base, normalized image units
+    orientation: HandOrientation;
+    thumbDirection: ThumbDirection;
+}
+
+/** The numbers behind the built-in rules, tunable per user (see calibration.ts) */
+export interface GestureThresholds {
+    /** Hands smaller than this (wrist → middle finger base, image units) are not classified */
+    minHandSize: number;
+    /** Pinch starts below this normalized thumb–index distance… */
+    pinchEnter: number;
+    /** …and ends once the fingers open past this */
+    pinchExit: number;
+    /** Extended fingers an open hand needs… */
+    openMinFingers: number;
+    /** …and needs to stay open */
+    openExitFingers: number;
+    /** Extended fingers a fist may still show as it closes (0 = all curled)… */
+    fistMaxFingers: number;
+    /** …and while it is held */
+    fistExitFingers: number;
+}
+
+export const DEFAULT_GESTURE_THRESHOLDS: GestureThresholds = {
+    minHandSize: 0.01,
+    pinchEnter: 0.5,
+    pinchExit: 0.6,
+    openMinFingers: 3,
+    openExitFingers: 2,
+    fistMaxFingers: 0,
+    fistExitFingers: 1,
+};
+
+export interface GestureRule {
+    name: GestureType;
+    /** Higher priority rules are tested first */
+    priority: number;
+    /** Required finger states; omitted fingers are ignored */
+    fingers?: Partial<Record<FingerName, boolean>>;
+    minFingersUp?: number;
+    maxFingersUp?: number;
+    /** Normalized pinch distance bounds (inclusive min, exclusive max) */
+    pinch?: { min?: number; max?: number };
+    orientation?: HandOrientation | HandOrientation[];
+    thumbDirection?: ThumbDirection | ThumbDirection[];
+    /** Escape hatch for conditions the fields above cannot express */
+    test?: (features: HandFeatures) => boolean;
+    /**
+     * Looser conditions used while this gesture is already active (hysteresis).
+     * Fields given here replace the entry conditions above.
+     */
+    exit?: Partial<Omit<GestureRule, 'name' | 'priority' | 'exit' | 'enterMs' | 'exitMs'>>;
+    /** How long (ms) the pose must be seen before the gesture starts */
+    enterMs?: number;
+    /** How long (ms) the pose must be gone before the gesture ends */
+    exitMs?: number;
+}
+
+export interface GestureClassification {
+    gesture: GestureType;
+    pinchDist: number;
+    features: HandFeatures | null;
+}
+
+export interface GestureRegistry {
+    /** Add a rule, replacing any existing rule with the same name */
+    register: (rule: GestureRule) => void;
+    unregister: (name: GestureType) => void;
+    get: (name: GestureType) => GestureRule | undefined;
+    list: () => GestureRule[];
+    /**
+     * Classify a hand. Pass the hand's currently active gesture to apply
+     * that rule's `exit` conditions instead of its entry conditions.
+     */
+    classify: (landmarks: NormalizedLandmark[], active?: GestureType) => GestureClassification;
+    /** Rebuild the threshold-driven rules (fist, pinch, open, ok if registered) and the minimum hand size */
+    setThresholds: (thresholds: GestureThresholds) => void;
+    getThresholds: () => GestureThresholds;
+}
+
+// ========== Feature Extraction ==========
+
+function isFingerExtended(landmarks: NormalizedLandmark[], tipIdx: number, pipIdx: number): boolean {
+    return landmarks[tipIdx].y < landmarks[pipIdx].y;
+}
+
+function oneOf<T>(value: T, allowed: T | T[]): boolean {
+    return Array.isArray(allowed) ? allowed.includes(value) : value === allowed;
+}
+
+/**
+ * Compute the pose features rules are written against.
+ * Returns null when the hand is too small to classify reliably.
+ */
+export function extractHandFeatures(
+    landmarks: NormalizedLandmark[],
+    minHandSize = DEFAULT_GESTURE_THRESHOLDS.minHandSize
+): HandFeatures | null {
+    const wrist = landmarks[0];
+    const thumbMcp = landmarks[2];
+    const thumbIp = landmarks[3];
+    const thumbTip = landmarks[4];
+    const indexTip = landmarks[8];
+    const middleMcp = landmarks[9];
+
+    // Hand size: distance from wrist to middle finger base (for normalization)
+    const handSize = Math.hypot(wrist.x - middleMcp.x, wrist.y - middleMcp.y);
+    if (handSize < minHandSize) return null;
+
+    const index = isFingerExtended(landmarks, 8, 6);
+    const middle = isFingerExtended(landmarks, 12, 10);
+    const ring = isFingerExtended(landmarks, 16, 14);
+    const pinky = isFingerExtended(landmarks, 20, 18);
+
+    // Thumb: compare x-distance from wrist
+    const thumb = Math.abs(thumbTip.x - wrist.x) > Math.abs(thumbIp.x - wrist.x);
+
+    // Pinch distance normalized by hand size (0 = touching, ~1 = far apart)
+    const pinchDistance = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y) / handSize;
+
+    const ax = middleMcp.x - wrist.x;
+    const ay = middleMcp.y - wrist.y;
+    const orientation: HandOrientation = Math.abs(ay) >= Math.abs(ax)
+        ? (ay < 0 ? 'up' : 'down')
+        : (ax < 0 ? 'left' : 'right');
+
+    // Thumb direction: base → tip, must reach at least half a hand size to count
+    const tx = thumbTip.x - thumbMcp.x;
+    const ty = thumbTip.y - thumbMcp.y;
+    let thumbDirection: ThumbDirection = 'folded';
+    if (Math.hypot(tx, ty) / handSize > 0.5) {
+        if (Math.abs(ty) > Math.abs(tx) * 1.5) thumbDirection = ty < 0 ? 'up' : 'down';
+        else thumbDirection = 'side';
+    }
+
+    return {
+        fingers: { thumb, index, middle, ring, pinky },
+        fingersUp: [index, middle, ring, pinky].filter(Boolean).length,
+        pinchDistance,
+        handSize,
+        orientation,
+        thumbDirection,
+    };
+}
+
+export function matchesRule(rule: GestureRule, f: HandFeatures): boolean {
+    if (rule.fingers) {
+        for (const [finger, extended] of Object.entries(rule.fingers)) {
+            if (f.fingers[finger as FingerName] !== extended) return false;
+        }
+    }
+    if (rule.minFingersUp !== undefined && f.fingersUp < rule.minFingersUp) return false;
+    if (rule.maxFingersUp !== undefined && f.fingersUp > rule.maxFingersUp) return false;
+    if (rule.pinch?.min !== undefined && f.pinchDistance < rule.pinch.min) return false;
+    if (rule.pinch?.max !== undefined && f.pinchDistance >= rule.pinch.max) return false;
+    if (rule.orientation && !oneOf(f.orientation, rule.orientation)) return false;
+    if (rule.thumbDirection && !oneOf(f.thumbDirection, rule.thumbDirection)) return false;
+    if (rule.test && !rule.test(f)) return false;
+    return true;
+}
+
+// ========== Built-in Vocabulary ==========
+
+const CURLED = { index: false, middle: false, ring: false, pinky: false };
+
+/** Gestures whose rules createBuiltInGestures derives from the thresholds */
+const THRESHOLD_GESTURES: GestureType[] = ['fist', 'ok', 'pinch', 'open'];
+
+export function createBuiltInGestures(t: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS): GestureRule[] {
+    return [
+        // ✊ FIST: all 4 fingers curled, unless calibrated looser (thumb position doesn't matter —
+        // thumb wraps around fingers in a fist, so thumbUp is unreliable).
+        // Slower to enter since it re-enables auto-rotate; tolerates one finger twitching
+        {
+            name: 'fist',
+            priority: 60,
+            maxFingersUp: t.fistMaxFingers,
+            exit: { maxFingersUp: t.fistExitFingers },
+            enterMs: 120,
+        },
+
+        // 🤏 PINCH: thumb and index close (fist already ruled out above,
+        // so at least one finger is extended — this is a deliberate pinch)
+        // Must open past the exit distance to release, so it doesn't flicker at the edge
+        { name: 'pinch', priority: 40, pinch: { max: t.pinchEnter }, exit: { pinch: { max: t.pinchExit } } },
+
+        // 🤘 ROCK: index and pinky up, middle and ring curled
+        { name: 'rock', priority: 35, fingers: { index: true, middle: false, ring: false, pinky: true } },
+
+        // ✌️ PEACE: index and middle up only
+        { name: 'peace', priority: 30, fingers: { index: true, middle: true, ring: false, pinky: false } },
+
+        // ☝️ POINT: index up only
+        { name: 'point', priority: 25, fingers: { index: true, middle: false, ring: false, pinky: false } },
+
+        // ✋ OPEN: 3+ fingers extended by default, stays open if one finger dips
+        { name: 'open', priority: 10, minFingersUp: t.openMinFingers, exit: { minFingersUp: t.openExitFingers } },
+    ];
+}
+
+/**
+ * 👍 and 👌 are a fist with the thumb up and a pinch with the other fingers
+ * open, so they outrank and take over those poses. Register them only where
+ * nothing is bound to fist or pinch: `OPTIONAL_GESTURES.forEach(registry.register)`.
+ */
+export function createOptionalGestures(t: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS): GestureRule[] {
+    return [
+        // 👍 THUMBS UP: fist with the thumb clearly pointing up
+        { name: 'thumbsUp', priority: 70, fingers: CURLED, thumbDirection: 'up' },
+
+        // 👌 OK: thumb and index touching, other three fingers extended
+        {
+            name: 'ok',
+            priority: 50,
+            fingers: { middle: true, ring: true, pinky: true },
+            pinch: { max: t.pinchEnter * 0.6 },
+        },
+    ];
+}
+
+export const BUILT_IN_GESTURES: GestureRule[] = createBuiltInGestures();
+
+export const OPTIONAL_GESTURES: GestureRule[] = createOptionalGestures();
+
+// ========== Registry ==========
+
+export function createGestureRegistry(
+    rules: GestureRule[] = BUILT_IN_GESTURES,
+    thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS
+): GestureRegistry {
+    let sorted: GestureRule[] = [];
+    let current = thresholds;
+
+    function setRules(next: GestureRule[]) {
+        sorted = [...next].sort((a, b) => b.priority - a.priority);
+    }
+    setRules(rules);
+
+    return {
+        register(rule) {
+            setRules([...sorted.filter((r) => r.name !== rule.name), rule]);
+        },
+
+        unregister(name) {
+            setRules(sorted.filter((r) => r.name !== name));
+        },
+
+        get: (name) => sorted.find((r) => r.name === name),
+
+        list: () => [...sorted],
+
+        classify(landmarks, active) {
+            const features = extractHandFeatures(landmarks, current.minHandSize);
+            if (!features) return { gesture: 'none', pinchDist: 1, features: null }; // hand too small/not detected
+
+            const result = (gesture: GestureType) => ({ gesture, pinchDist: features.pinchDistance, features });
+
+            // Keep the active gesture under its exit conditions unless a
+            // higher-priority gesture is entered outright
+            const activeRule = active ? sorted.find((r) => r.name === active) : undefined;
+            if (activeRule?.exit) {
+                const higher = sorted.find((r) => r.priority > activeRule.priority && matchesRule(r, features));
+                if (higher) return result(higher.name);
+                if (matchesRule({ ...activeRule, ...activeRule.exit }, features)) return result(activeRule.name);
+            }
+
+            const rule = sorted.find((r) => matchesRule(r, features));
+            return result(rule ? rule.name : 'none');
+        },
+
+        setThresholds(next) {
+            current = next;
+            // Optional rules are only rebuilt when registered
+            const tuned = [...createBuiltInGestures(next), ...createOptionalGestures(next)].filter(
+                (r) => THRESHOLD_GESTURES.includes(r.name) && (r.name !== 'ok' || sorted.some((s) => s.name === 'ok'))
+            );
+            setRules([...sorted.filter((r) => !THRESHOLD_GESTURES.includes(r.name)), ...tuned]);
+        },
+
+        getThresholds: () => current,
+    };
+}
@@ -1,73 +1,220 @@
 /**
- * Globe Scene – Three.js 3D Globe with Galaxy Background
- * Creates a realistic Earth globe with subtle atmosphere and stars
+ * Globe Scene – Three.js 3D Globe over the webcam background
+ * Creates a realistic Earth globe with a sunlit atmosphere glow,
+ * and can swap it for the Moon, Mars and the other registered bodies
  */
 
 import * as THREE from 'three';
-
-// Multiple CDN fallbacks for Earth textures
-const TEXTURE_SOURCES = [
-    {
-        earth: 'https://cdn.jsdelivr.net/npm/three-globe/example/img/earth-blue-marble.jpg',
-        bump: 'https://cdn.jsdelivr.net/npm/three-globe/example/img/earth-topology.png',
-        spec: 'https://cdn.jsdelivr.net/npm/three-globe/example/img/earth-water.png',
-        clouds: 'https://cdn.jsdelivr.net/npm/three-globe/example/img/earth-clouds.png',
-    },
-    {
-        earth: 'https://unpkg.com/three-globe/example/img/earth-blue-marble.jpg',
-        bump: 'https://unpkg.com/three-globe/example/img/earth-topology.png',
-        spec: 'https://unpkg.com/three-globe/example/img/earth-water.png',
-        clouds: 'https://unpkg.com/three-globe/example/img/earth-clouds.png',
-    },
-    {
-        earth: 'https://raw.githubusercontent.com/mrdoob/three.js/dev/examples/textures/planets/earth_atmos_2048.jpg',
-        bump: 'https://raw.githubusercontent.com/mrdoob/three.js/dev/examples/textures/planets/earth_normal_2048.jpg',
-        spec: 'https://raw.githubusercontent.com/mrdoob/three.js/dev/examples/textures/planets/earth_specular_2048.jpg',
-        clouds: 'https://raw.githubusercontent.com/mrdoob/three.js/dev/examples/textures/planets/earth_clouds_1024.png',
-    },
-];
+import { latLonToVector3, LatLon, vector3ToLatLon } from './geo';
+import { AssetRecord, loadTextureAsset } from './assets';
+import { subsolarPoint } from './sun';
+import { AtmosphereOptions, createAtmosphere, DEFAULT_ATMOSPHERE_OPTIONS } from './atmosphere';
+import { BodyTextureSlot, CelestialBody, getBody, listBodies } from './bodies';
+import { createEventBus, EventSource } from './events';
 
 export interface GlobeControls {
+    /** Tilt about the screen's horizontal axis (trackball, no gimbal lock) */
     rotateX: (angle: number) => void;
+    /** Spin about the screen's vertical axis */
     rotateY: (angle: number) => void;
+    /** Release the globe with the angular velocity of the last rotations */
+    fling: () => void;
+    /** Set momentum directly, in radians per frame about the screen axes */
+    setAngularVelocity: (x: number, y: number) => void;
+    getAngularVelocity: () => { x: number; y: number };
+    stopMomentum: () => void;
+    /** Fraction of momentum lost per frame (0 = spins forever, 1 = stops dead) */
+    setFriction: (friction: number) => void;
+    /** Camera distance, clamped to the zoom range */
     setZoom: (distance: number) => void;
     getZoom: () => number;
+    /** Limit setZoom to [min, max] (within 1.2 – 20; default 1.8 – 8) */
+    setZoomRange: (min: number, max: number) => void;
+    getZoomRange: () => { min: number; max: number };
     setAutoRotate: (enabled: boolean) => void;
+    getAutoRotate: () => boolean;
     movePosition: (dx: number, dy: number) => void;
+    /** Scene units moved per normalized unit passed to movePosition (default 5) */
+    setMoveSpeed: (speed: number) => void;
     resetPosition: () => void;
+    /** Lat/lon of the point on the globe closest to the camera */
+    getViewCenter: () => LatLon;
+    /**
+     * Animate so (lat, lon) faces the camera with north up, optionally zooming.
+     * Resolves when the flight lands or is interrupted by user rotation.
+     */
+    flyTo: (lat: number, lon: number, zoom?: number, durationMs?: number) => Promise<void>;
+    /** Moment the day/night terminator shows */
+    setTime: (time: Date | number) => void;
+    getTime: () => Date;
+    /** Move the clock by a number of milliseconds (negative = back in time) */
+    shiftTime: (ms: number) => void;
+    /** Simulated seconds per real second: 1 = real time, 0 = paused, 3600 = an hour a second */
+    setTimeSpeed: (speed: number) => void;
+    getTimeSpeed: () => number;
+    /**
+     * Show another registered body (see bodies.ts). Loads its textures, then
+     * shrinks the globe away and grows the new one in. Rejects for unknown ids
+     */
+    setBody: (id: string) => Promise<void>;
+    getBody: () => CelestialBody;
+    /** Switch to the next (or with -1, previous) registered body */
+    cycleBody: (step?: number) => Promise<void>;
+}
+
+export interface GlobeView {
+    /** Orientation of the globe group (a copy) */
+    quaternion: THREE.Quaternion;
+    /** Camera distance */
+    zoom: number;
+    /** Screen-plane offset set by movePosition */
+    position: { x: number; y: number };
+    /** Point facing the camera */
+    center: LatLon;
+}
+
+export interface GlobeEvents {
+    /** Rotation, zoom or position changed; at most once per frame */
+    viewChange: GlobeView;
+    /** Every texture of a body has settled (loaded, generated or missing) */
+    texturesLoaded: { body: CelestialBody; assets: AssetRecord[] };
+    /** A body switch has swapped the globe */
+    bodyChange: CelestialBody;
 }
 
 /**
- * Try loading a texture from multiple URLs. Returns first successful one.
+ * Everything layers need to attach to the globe and hook into its frame loop
  */
-function loadTextureWithFallback(
-    loader: THREE.TextureLoader,
-    urls: string[],
-    onSuccess: (tex: THREE.Texture) => void,
-    onAllFailed: () => void
-) {
-    let attempt = 0;
-
-    function tryNext() {
-        if (attempt >= urls.length) {
-            onAllFailed();
-            return;
-        }
-        const url = urls[attempt];
-        attempt++;
-        loader.load(url, onSuccess, undefined, () => {
-            console.warn(`Failed to load: ${url}, trying next URL...`);
-            tryNext();
-        });
-    }
+export interface GlobeScene {
+    controls: GlobeControls;
+    scene: THREE.Scene;
+    camera: THREE.PerspectiveCamera;
+    renderer: THREE.WebGLRenderer;
+    /** Rotates, moves and zooms with the Earth – add surface objects here */
+    globeGroup: THREE.Group;
+    /** Run a callback every frame just before rendering. Returns an unsubscribe function */
+    onFrame: (callback: () => void) => () => void;
+    /** Typed subscriptions to view, texture and body changes */
+    events: EventSource<GlobeEvents>;
+    /** Where each texture came from (filled in as they load) */
+    getAssetReport: () => AssetRecord[];
+    /** Shorthand for events.on('bodyChange', …) */
+    onBodyChange: (listener: (body: CelestialBody) => void) => () => void;
+    /** Change the glow's color, thickness, intensity or visibility (reset by setBody) */
+    setAtmosphere: (options: Partial<AtmosphereOptions>) => void;
+    getAtmosphere: () => AtmosphereOptions;
+    dispose: () => void;
+}
+
+export const DEFAULT_ZOOM_RANGE = { min: 1.8, max: 8 };
+const ZOOM_LIMITS = { min: 1.2, max: 20 }; // any closer and the camera clips into the largest body
+
+// Bodies without a real-time Sun are lit from the viewer's upper right
+const VIEWER_SUN = new THREE.Vector3(5, 3, 5).normalize();
+
+export interface GlobeSceneOptions {
+    /** Size to this element (watched with a ResizeObserver) instead of the window */
+    container?: HTMLElement;
+}
 
-    tryNext();
+function easeInOutCubic(t: number): number {
+    return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
 }
 
+// ========== Surface Shader ==========
+// Day texture lit by the Sun, blended into city lights (if any) across a soft terminator
+
+const surfaceVertexShader = `
+    varying vec2 vUv;
+    varying vec3 vWorldNormal;
+    varying vec3 vWorldPosition;
+    void main() {
+        vUv = uv;
+        vWorldNormal = normalize(mat3(modelMatrix) * normal);
+        vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+        vWorldPosition = worldPosition.xyz;
+        gl_Position = projectionMatrix * viewMatrix * worldPosition;
+    }
+`;
+
+const surfaceFragmentShader = `
+    uniform sampler2D uDayMap;
+    uniform sampler2D uNightMap;
+    uniform sampler2D uSpecMap;
+    uniform sampler2D uBumpMap;
+    uniform bool uHasDay;
+    uniform bool uHasNight;
+    uniform bool uHasSpec;
+    uniform bool uHasBump;
+    uniform float uBumpScale;
+    uniform vec3 uBaseColor; // used until (or unless) a day texture loads
+    uniform vec3 uSunDirection; // world space, normalized
+    varying vec2 vUv;
+    varying vec3 vWorldNormal;
+    varying vec3 vWorldPosition;
+
+    // Bump mapping from screen-space derivatives (as in three.js' bumpmap chunk)
+    vec3 bumpedNormal(vec3 normal) {
+        vec2 dSTdx = dFdx(vUv);
+        vec2 dSTdy = dFdy(vUv);
+        float h = uBumpScale * texture2D(uBumpMap, vUv).x;
+        vec2 dHdxy = vec2(
+            uBumpScale * texture2D(uBumpMap, vUv + dSTdx).x - h,
+            uBumpScale * texture2D(uBumpMap, vUv + dSTdy).x - h
+        );
+        vec3 sigmaX = normalize(dFdx(vWorldPosition));
+        vec3 sigmaY = normalize(dFdy(vWorldPosition));
+        vec3 r1 = cross(sigmaY, normal);
+        vec3 r2 = cross(normal, sigmaX);
+        float det = dot(sigmaX, r1);
+        vec3 grad = sign(det) * (dHdxy.x * r1 + dHdxy.y * r2);
+        return normalize(abs(det) * normal - grad);
+    }
+
+    void main() {
+        vec3 geometryNormal = normalize(vWorldNormal);
+        vec3 normal = uHasBump ? bumpedNormal(geometryNormal) : geometryNormal;
+
+        // Terminator from the smooth sphere normal so relief doesn't speckle it
+        float sunAngle = dot(geometryNormal, uSunDirection);
+        float dayAmount = smoothstep(-0.12, 0.18, sunAngle);
+
+        vec3 day = uHasDay ? texture2D(uDayMap, vUv).rgb : uBaseColor;
+        vec3 lit = day * (0.3 + 1.1 * max(dot(normal, uSunDirection), 0.0));
+
+        // Oceans glint where the specular map is bright
+        if (uHasSpec) {
+            vec3 viewDir = normalize(cameraPosition - vWorldPosition);
+            vec3 halfDir = normalize(uSunDirection + viewDir);
+            float water = texture2D(uSpecMap, vUv).r;
+            lit += vec3(1.0, 0.97, 0.9) * pow(max(dot(normal, halfDir), 0.0), 30.0) * water * 0.35;
+        }
+
+        // Night: city lights plus a faint trace of the day side so continents stay readable
+        vec3 lights = uHasNight ? texture2D(uNightMap, vUv).rgb * 1.4 : vec3(0.0);
+        vec3 dark = day * 0.08 + lights;
+
+        gl_FragColor = vec4(mix(dark, lit, dayAmount), 1.0);
+        #include <tonemapping_fragment>
+        #include <colorspace_fragment>
+    }
+`;
+
 export function createGlobeScene(
     canvas: HTMLCanvasElement,
-    onProgress: (pct: number) => void
-): { controls: GlobeControls; scene: THREE.Scene; camera: THREE.Camera; dispose: () => void } {
+    onProgress: (pct: number) => void,
+    options: GlobeSceneOptions = {}
+): GlobeScene {
+    const { container } = options;
+
+    /** Drawing size; never 0 so the aspect ratio stays finite before layout */
+    function viewportSize() {
+        const width = container ? container.clientWidth : window.innerWidth;
+        const height = container ? container.clientHeight : window.innerHeight;
+        return { width: Math.max(width, 1), height: Math.max(height, 1) };
+    }
+    const initialSize = viewportSize();
+
     // ========== Renderer ==========
     const renderer = new THREE.WebGLRenderer({
         canvas,
@@ -75,7 +222,7 @@ export function createGlobeScene(
         alpha: true,
         powerPreference: 'high-performance',
     });
-    renderer.setSize(window.innerWidth, window.innerHeight);
+    renderer.setSize(initialSize.width, initialSize.height);
     renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
     renderer.toneMapping = THREE.NoToneMapping;
     renderer.setClearColor(0x000000, 0); // Fully transparent
@@ -87,7 +234,7 @@ export function createGlobeScene(
     // ========== Camera ==========
     const camera = new THREE.PerspectiveCamera(
         50,
-        window.innerWidth / window.innerHeight,
+        initialSize.width / initialSize.height,
         0.1,
         2000
     );
@@ -102,7 +249,7 @@ export function createGlobeScene(
     const hemiLight = new THREE.HemisphereLight(0x88bbff, 0x223344, 1.0);
     scene.add(hemiLight);
 
-    // Main sunlight
+    // Main sunlight – follows the simulated Sun (see the clock below)
     const sunLight = new THREE.DirectionalLight(0xfff8f0, 2.5);
     sunLight.position.set(5, 3, 5);
     scene.add(sunLight);
@@ -121,11 +268,54 @@ export function createGlobeScene(
     const globeGroup = new THREE.Group();
     scene.add(globeGroup);
 
+    // ========== Events ==========
+    const events = createEventBus<GlobeEvents>();
+
     // ========== Texture Loading ==========
     const textureLoader = new THREE.TextureLoader();
     textureLoader.crossOrigin = 'anonymous';
+    const assetReport: AssetRecord[] = [];
+
+    type BodyTextures = Partial<Record<BodyTextureSlot, THREE.Texture>>;
+    // Each body loads once, so switching back is instant
+    const bodyTextures = new Map<string, Promise<BodyTextures>>();
+
+    /** Load every texture of a body; `onEach` runs as each one settles */
+    function loadBodyTextures(body: CelestialBody, onEach?: () => void): Promise<BodyTextures> {
+        const cached = bodyTextures.get(body.id);
+        if (cached) return cached;
+
+        const slots = Object.entries(body.textures) as [BodyTextureSlot, string[]][];
+        const records: AssetRecord[] = [];
+        const pending = Promise.all(
+            slots.map(async ([slot, urls]) => {
+                const asset = await loadTextureAsset(textureLoader, `${body.id}-${slot}`, urls);
+                let texture = asset.texture;
+                // Generated when no copy can be loaded, so the globe is never a plain sphere
+                if (!texture && slot === 'day' && body.generateTexture) {
+                    texture = await body.generateTexture();
+                    asset.origin = 'generated';
+                }
+                if (texture && (slot === 'day' || slot === 'night')) texture.colorSpace = THREE.SRGBColorSpace;
+                const record = { name: asset.name, origin: asset.origin, url: asset.url };
+                assetReport.push(record);
+                records.push(record);
+                onEach?.();
+                return [slot, texture] as const;
+            })
+        ).then((loaded) => {
+            events.emit('texturesLoaded', { body, assets: records });
+            return Object.fromEntries(loaded.filter(([, texture]) => texture)) as BodyTextures;
+        });
+
+        bodyTextures.set(body.id, pending);
+        return pending;
+    }
+
+    // ========== Loading Progress ==========
+    let currentBody = getBody('earth') ?? listBodies()[0];
     let loadedCount = 0;
-    const totalTextures = 4;
+    const totalTextures = Object.keys(currentBody.textures).length;
     let progressCompleted = false;
 
     function trackLoad() {
@@ -145,57 +335,29 @@ export function createGlobeScene(
         }
     }, 10000);
 
-    // ========== Earth ==========
-    const earthGeometry = new THREE.SphereGeometry(1, 128, 128);
-    const earthMaterial = new THREE.MeshPhongMaterial({
-        color: 0xffffff, // White base so textures display at full brightness
-        shininess: 20,
-        specular: new THREE.Color(0x444444),
+    // ========== Surface ==========
+    const surfaceGeometry = new THREE.SphereGeometry(1, 128, 128);
+    const surfaceUniforms = {
+        uDayMap: { value: null as THREE.Texture | null },
+        uNightMap: { value: null as THREE.Texture | null },
+        uSpecMap: { value: null as THREE.Texture | null },
+        uBumpMap: { value: null as THREE.Texture | null },
+        uHasDay: { value: false },
+        uHasNight: { value: false },
+        uHasSpec: { value: false },
+        uHasBump: { value: false },
+        uBumpScale: { value: 0 },
+        uBaseColor: { value: new THREE.Color() },
+        uSunDirection: { value: VIEWER_SUN.clone() },
+    };
+    const surfaceMaterial = new THREE.ShaderMaterial({
+        uniforms: surfaceUniforms,
+        vertexShader: surfaceVertexShader,
+        fragmentShader: surfaceFragmentShader,
     });
 
-    const earth = new THREE.Mesh(earthGeometry, earthMaterial);
-    globeGroup.add(earth);
-
-    // Earth main texture
-    const earthUrls = TEXTURE_SOURCES.map((s) => s.earth);
-    loadTextureWithFallback(
-        textureLoader,
-        earthUrls,
-        (tex) => {
-            tex.colorSpace = THREE.SRGBColorSpace;
-            earthMaterial.map = tex;
-            earthMaterial.needsUpdate = true;
-            trackLoad();
-        },
-        trackLoad
-    );
-
-    // Bump map
-    const bumpUrls = TEXTURE_SOURCES.map((s) => s.bump);
-    loadTextureWithFallback(
-        textureLoader,
-        bumpUrls,
-        (tex) => {
-            earthMaterial.bumpMap = tex;
-            earthMaterial.bumpScale = 0.03;
-            earthMaterial.needsUpdate = true;
-            trackLoad();
-        },
-        trackLoad
-    );
-
-    // Specular map
-    const specUrls = TEXTURE_SOURCES.map((s) => s.spec);
-    loadTextureWithFallback(
-        textureLoader,
-        specUrls,
-        (tex) => {
-            earthMaterial.specularMap = tex;
-            earthMaterial.needsUpdate = true;
-            trackLoad();
-        },
-        trackLoad
-    );
+    const surface = new THREE.Mesh(surfaceGeometry, surfaceMaterial);
+    globeGroup.add(surface);
 
     // ========== Clouds ==========
     const cloudGeometry = new THREE.SphereGeometry(1.012, 96, 96);
@@ -209,38 +371,276 @@ export function createGlobeScene(
     const clouds = new THREE.Mesh(cloudGeometry, cloudMaterial);
     globeGroup.add(clouds);
 
-    const cloudUrls = TEXTURE_SOURCES.map((s) => s.clouds);
-    loadTextureWithFallback(
-        textureLoader,
-        cloudUrls,
-        (tex) => {
-            cloudMaterial.map = tex;
-            cloudMaterial.alphaMap = tex;
-            cloudMaterial.needsUpdate = true;
-            trackLoad();
-        },
-        trackLoad
-    );
+    // ========== Atmosphere ==========
+    const atmosphere = createAtmosphere();
+    globeGroup.add(atmosphere.object);
+
+    /** Dress the globe as `body` with whichever of its textures loaded */
+    function applyBody(body: CelestialBody, textures: BodyTextures) {
+        currentBody = body;
+
+        const u = surfaceUniforms;
+        u.uDayMap.value = textures.day ?? null;
+        u.uHasDay.value = !!textures.day;
+        u.uNightMap.value = textures.night ?? null;
+        u.uHasNight.value = !!textures.night;
+        u.uSpecMap.value = textures.spec ?? null;
+        u.uHasSpec.value = !!textures.spec;
+        u.uBumpMap.value = textures.bump ?? null;
+        u.uHasBump.value = !!textures.bump;
+        u.uBumpScale.value = body.bumpScale ?? 0;
+        u.uBaseColor.value.set(body.color);
+
+        // An untextured cloud shell would just haze the globe
+        cloudMaterial.map = textures.clouds ?? null;
+        cloudMaterial.alphaMap = textures.clouds ?? null;
+        cloudMaterial.needsUpdate = true;
+        clouds.visible = !!textures.clouds;
+
+        atmosphere.setOptions(
+            body.atmosphere ? { ...DEFAULT_ATMOSPHERE_OPTIONS, ...body.atmosphere, visible: true } : { visible: false }
+        );
+        globeGroup.scale.setScalar(body.radius);
+    }
+
+    // ========== Body Switching ==========
+    // The globe shrinks away, swaps material at its smallest and grows back at the new radius
+    const BODY_TRANSITION_MS = 900;
+
+    interface BodyTransition {
+        start: number;
+        fromRadius: number;
+        swap: () => void;
+        swapped: boolean;
+        resolve: () => void;
+    }
+    let transition: BodyTransition | null = null;
+    let bodyRequest = 0; // newest setBody call wins
+    let targetBodyId = currentBody.id;
+
+    function swapBody(t: BodyTransition) {
+        if (t.swapped) return;
+        t.swapped = true;
+        t.swap();
+    }
+
+    function endTransition() {
+        if (!transition) return;
+        swapBody(transition);
+        globeGroup.scale.setScalar(currentBody.radius);
+        transition.resolve();
+        transition = null;
+    }
+
+    function updateTransition(now: number) {
+        if (!transition) return;
+        const t = Math.min(1, (now - transition.start) / BODY_TRANSITION_MS);
+        let scale: number;
+        if (t < 0.5) {
+            scale = transition.fromRadius * (1 - easeInOutCubic(t * 2));
+        } else {
+            swapBody(transition);
+            scale = currentBody.radius * easeInOutCubic(t * 2 - 1);
+        }
+        globeGroup.scale.setScalar(Math.max(scale, 1e-3));
+        if (t >= 1) endTransition();
+    }
 
+    async function setBody(id: string): Promise<void> {
+        const body = getBody(id);
+        if (!body) throw new Error(`Unknown body "${id}"`);
+
+        targetBodyId = id;
+        const request = ++bodyRequest;
+        const textures = await loadBodyTextures(body);
+        if (request !== bodyRequest || disposed) return;
+
+        endTransition();
+        if (body === currentBody) {
+            applyBody(body, textures);
+            return;
+        }
+
+        return new Promise((resolve) => {
+            transition = {
+                start: performance.now(),
+                fromRadius: globeGroup.scale.x,
+                swap: () => {
+                    applyBody(body, textures);
+                    events.emit('bodyChange', body);
+                },
+                swapped: false,
+                resolve,
+            };
+        });
+    }
+
+    function cycleBody(step = 1): Promise<void> {
+        const bodies = listBodies();
+        const index = bodies.findIndex((b) => b.id === targetBodyId);
+        const next = bodies[(((index + step) % bodies.length) + bodies.length) % bodies.length];
+        return setBody(next.id);
+    }
+
+    applyBody(currentBody, {});
+    const initialBody = currentBody;
+    loadBodyTextures(initialBody, trackLoad).then((textures) => {
+        // Unless setBody already took over
+        if (bodyRequest === 0) applyBody(initialBody, textures);
+    });
 
     // Stars removed – webcam is the background now
 
+    // ========== Rotation ==========
+    // User rotation is applied about the camera's axes with quaternions so the
+    // globe behaves like a trackball however it is tilted
+    const SCREEN_X = new THREE.Vector3(1, 0, 0);
+    const SCREEN_Y = new THREE.Vector3(0, 1, 0);
+    const tmpQuat = new THREE.Quaternion();
+
+    function applyScreenRotation(ax: number, ay: number) {
+        if (ax) globeGroup.quaternion.premultiply(tmpQuat.setFromAxisAngle(SCREEN_X, ax));
+        if (ay) globeGroup.quaternion.premultiply(tmpQuat.setFromAxisAngle(SCREEN_Y, ay));
+    }
+
+    const frameInput = { x: 0, y: 0 }; // rotation requested this frame
+    const inputVelocity = { x: 0, y: 0 }; // smoothed recent rotation speed, used by fling
+    const momentum = { x: 0, y: 0 }; // free spin after release (rad/frame)
+    let friction = 0.04;
+
+    function viewCenter(): LatLon {
+        // Direction to the camera, expressed in the globe's local space
+        const dir = camera.position.clone().sub(globeGroup.position);
+        dir.applyQuaternion(globeGroup.quaternion.clone().invert());
+        return vector3ToLatLon(dir);
+    }
+
+    /** Globe orientation that puts (lat, lon) in front of the camera with north up */
+    function orientationFor(lat: number, lon: number): THREE.Quaternion {
+        const forward = latLonToVector3(lat, lon).normalize();
+        // Local north tangent; at the poles fall back to the prime meridian direction
+        const north = new THREE.Vector3(0, 1, 0).addScaledVector(forward, -forward.y);
+        if (north.lengthSq() < 1e-8) north.copy(latLonToVector3(0, 0)).multiplyScalar(-Math.sign(lat));
+        north.normalize();
+        const east = new THREE.Vector3().crossVectors(north, forward);
+
+        // Rotation mapping east → X, north → Y, forward → Z (inverse of the local basis)
+        const basis = new THREE.Matrix4().makeBasis(east, north, forward).transpose();
+        return new THREE.Quaternion().setFromRotationMatrix(basis);
+    }
+
+    interface Flight {
+        from: THREE.Quaternion;
+        to: THREE.Quaternion;
+        fromZoom: number;
+        toZoom: number;
+        start: number;
+        duration: number;
+        resolve: () => void;
+    }
+    let flight: Flight | null = null;
+
+    function endFlight() {
+        flight?.resolve();
+        flight = null;
+    }
+
     // ========== State ==========
     let autoRotate = true;
     let targetZoom = 3.5;
     let currentZoom = 3.5;
+    const zoomRange = { ...DEFAULT_ZOOM_RANGE };
+    let moveSpeed = 5;
     let disposed = false;
+    const frameCallbacks = new Set<() => void>();
+
+    function clampZoom(distance: number) {
+        return Math.max(zoomRange.min, Math.min(zoomRange.max, distance));
+    }
+
+    // ========== Clock ==========
+    // Simulated time for the Sun position; starts now and runs in real time
+    let simTime = Date.now();
+    let timeSpeed = 1;
+    let lastFrame = performance.now();
+    const sunLocal = new THREE.Vector3();
+
+    function updateSun() {
+        if (currentBody.realTimeSun) {
+            const { lat, lon } = subsolarPoint(new Date(simTime));
+            latLonToVector3(lat, lon, 1, sunLocal);
+            // The Sun is fixed to the Earth's surface coordinates, so it turns with the globe
+            surfaceUniforms.uSunDirection.value.copy(sunLocal).applyQuaternion(globeGroup.quaternion);
+        } else {
+            surfaceUniforms.uSunDirection.value.copy(VIEWER_SUN);
+        }
+        sunLight.position.copy(surfaceUniforms.uSunDirection.value).multiplyScalar(5);
+        atmosphere.setSunDirection(surfaceUniforms.uSunDirection.value);
+    }
     let targetX = 0, targetY = 0;
     let currentX = 0, currentY = 0;
 
+    // ========== View Change Events ==========
+    const VIEW_EPSILON = 1e-4;
+    const lastView = { quaternion: new THREE.Quaternion(), zoom: NaN, x: NaN, y: NaN };
+
+    function emitViewChange() {
+        const q = globeGroup.quaternion;
+        const changed = q.angleTo(lastView.quaternion) > VIEW_EPSILON
+            || !(Math.abs(currentZoom - lastView.zoom) < VIEW_EPSILON) // NaN on the first frame
+            || !(Math.abs(currentX - lastView.x) < VIEW_EPSILON)
+            || !(Math.abs(currentY - lastView.y) < VIEW_EPSILON);
+        if (!changed) return;
+
+        lastView.quaternion.copy(q);
+        lastView.zoom = currentZoom;
+        lastView.x = currentX;
+        lastView.y = currentY;
+        if (!events.has('viewChange')) return;
+        events.emit('viewChange', {
+            quaternion: q.clone(),
+            zoom: currentZoom,
+            position: { x: currentX, y: currentY },
+            center: viewCenter(),
+        });
+    }
+
     // ========== Animation Loop ==========
     function animate() {
         if (disposed) return;
         requestAnimationFrame(animate);
 
-        if (autoRotate) {
-            globeGroup.rotation.y += 0.001;
+        const now = performance.now();
+        simTime += (now - lastFrame) * timeSpeed;
+        lastFrame = now;
+
+        // Track how fast the user is turning the globe
+        inputVelocity.x += (frameInput.x - inputVelocity.x) * 0.5;
+        inputVelocity.y += (frameInput.y - inputVelocity.y) * 0.5;
+        frameInput.x = 0;
+        frameInput.y = 0;
+
+        // Momentum: keep spinning after release, slowed by friction
+        if (Math.abs(momentum.x) > 1e-5 || Math.abs(momentum.y) > 1e-5) {
+            applyScreenRotation(momentum.x, momentum.y);
+            momentum.x *= 1 - friction;
+            momentum.y *= 1 - friction;
+        } else {
+            momentum.x = 0;
+            momentum.y = 0;
+        }
+
+        if (flight) {
+            const t = Math.min(1, (performance.now() - flight.start) / flight.duration);
+            const eased = easeInOutCubic(t);
+            globeGroup.quaternion.slerpQuaternions(flight.from, flight.to, eased);
+            targetZoom = flight.fromZoom + (flight.toZoom - flight.fromZoom) * eased;
+            if (t >= 1) endFlight();
+        } else if (autoRotate) {
+            // Spin about Earth's own axis, wherever it is tilted
+            globeGroup.rotateY(0.001 * currentBody.rotationRate);
         }
+        updateTransition(now);
 
         clouds.rotation.y += 0.0003;
 
@@ -252,33 +652,77 @@ export function createGlobeScene(
         currentY += (targetY - currentY) * 0.12;
         globeGroup.position.x = currentX;
         globeGroup.position.y = currentY;
+        updateSun();
+        emitViewChange();
 
+        // Layers project to screen space, so give them this frame's matrices
+        scene.updateMatrixWorld();
+        camera.updateMatrixWorld();
+        frameCallbacks.forEach((cb) => cb());
         renderer.render(scene, camera);
     }
     animate();
 
     // ========== Resize ==========
     function handleResize() {
-        camera.aspect = window.innerWidth / window.innerHeight;
+        const { width, height } = viewportSize();
+        camera.aspect = width / height;
         camera.updateProjectionMatrix();
-        renderer.setSize(window.innerWidth, window.innerHeight);
+        renderer.setSize(width, height);
+    }
+    let resizeObserver: ResizeObserver | null = null;
+    if (container) {
+        resizeObserver = new ResizeObserver(handleResize);
+        resizeObserver.observe(container);
+    } else {
+        window.addEventListener('resize', handleResize);
     }
-    window.addEventListener('resize', handleResize);
 
     // ========== Controls API ==========
     const controls: GlobeControls = {
         rotateX(angle: number) {
-            globeGroup.rotation.x += angle;
-            globeGroup.rotation.x = Math.max(
-                -Math.PI / 2,
-                Math.min(Math.PI / 2, globeGroup.rotation.x)
-            );
+            // Grabbing the globe stops any free spin or flight
+            endFlight();
+            momentum.x = 0;
+            momentum.y = 0;
+            frameInput.x += angle;
+            applyScreenRotation(angle, 0);
         },
         rotateY(angle: number) {
-            globeGroup.rotation.y += angle;
+            endFlight();
+            momentum.x = 0;
+            momentum.y = 0;
+            frameInput.y += angle;
+            applyScreenRotation(0, angle);
+        },
+        fling() {
+            momentum.x = inputVelocity.x;
+            momentum.y = inputVelocity.y;
+        },
+        setAngularVelocity(x: number, y: number) {
+            momentum.x = x;
+            momentum.y = y;
+        },
+        getAngularVelocity() {
+            return { x: momentum.x, y: momentum.y };
+        },
+        stopMomentum() {
+            momentum.x = 0;
+            momentum.y = 0;
+        },
+        setFriction(value: number) {
+            friction = Math.max(0, Math.min(1, value));
         },
         setZoom(distance: number) {
-            targetZoom = Math.max(1.8, Math.min(8, distance));
+            targetZoom = clampZoom(distance);
+        },
+        setZoomRange(min: number, max: number) {
+            zoomRange.min = Math.max(ZOOM_LIMITS.min, Math.min(min, max));
+            zoomRange.max = Math.min(ZOOM_LIMITS.max, Math.max(min, max));
+            targetZoom = clampZoom(targetZoom);
+        },
+        getZoomRange() {
+            return { ...zoomRange };
         },
         getZoom() {
             return targetZoom;
@@ -286,27 +730,103 @@ export function createGlobeScene(
         setAutoRotate(enabled: boolean) {
             autoRotate = enabled;
         },
+        getAutoRotate() {
+            return autoRotate;
+        },
         movePosition(dx: number, dy: number) {
             // Move globe by delta (normalized coords → 3D space)
             // Mirror X because webcam is mirrored
-            targetX += -dx * 5;
-            targetY += -dy * 5;
+            targetX += -dx * moveSpeed;
+            targetY += -dy * moveSpeed;
+        },
+        setMoveSpeed(speed: number) {
+            moveSpeed = Math.max(0, speed);
         },
         resetPosition() {
             targetX = 0;
             targetY = 0;
         },
+        getViewCenter: viewCenter,
+        flyTo(lat: number, lon: number, zoom?: number, durationMs = 1500) {
+            endFlight();
+            momentum.x = 0;
+            momentum.y = 0;
+
+            const to = orientationFor(lat, lon);
+            const toZoom = zoom === undefined ? targetZoom : clampZoom(zoom);
+            if (durationMs <= 0) {
+                globeGroup.quaternion.copy(to);
+                targetZoom = toZoom;
+                return Promise.resolve();
+            }
+
+            return new Promise<void>((resolve) => {
+                flight = {
+                    from: globeGroup.quaternion.clone(),
+                    to,
+                    fromZoom: targetZoom,
+                    toZoom,
+                    start: performance.now(),
+                    duration: durationMs,
+                    resolve,
+                };
+            });
+        },
+        setTime(time: Date | number) {
+            simTime = typeof time === 'number' ? time : time.getTime();
+        },
+        getTime() {
+            return new Date(simTime);
+        },
+        shiftTime(ms: number) {
+            simTime += ms;
+        },
+        setTimeSpeed(speed: number) {
+            timeSpeed = speed;
+        },
+        getTimeSpeed() {
+            return timeSpeed;
+        },
+        setBody,
+        getBody: () => currentBody,
+        cycleBody,
     };
 
     function dispose() {
         disposed = true;
+        endFlight();
+        resizeObserver?.disconnect();
         window.removeEventListener('resize', handleResize);
         renderer.dispose();
-        earthGeometry.dispose();
-        earthMaterial.dispose();
+        surfaceGeometry.dispose();
+        surfaceMaterial.dispose();
         cloudGeometry.dispose();
         cloudMaterial.dispose();
+        atmosphere.dispose();
+        transition?.resolve();
+        transition = null;
+        events.clear();
     }
 
-    return { controls, scene, camera, dispose };
+    function onFrame(callback: () => void) {
+        frameCallbacks.add(callback);
+        return () => {
+            frameCallbacks.delete(callback);
+        };
+    }
+
+    return {
+        controls,
+        scene,
+        camera,
+        renderer,
+        globeGroup,
+        onFrame,
+        getAssetReport: () => [...assetReport],
+        events,
+        onBodyChange: (listener) => events.on('bodyChange', listener),
+        setAtmosphere: atmosphere.setOptions,
+        getAtmosphere: atmosphere.getOptions,
+        dispose,
+    };
 }
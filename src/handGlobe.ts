@@ -0,0 +1,288 @@
+/**
+ * Hand Globe – Embeddable globe with hand tracking
+ * createHandGlobe() mounts the globe, hand tracker, gesture bindings and
+ * pointer controls into any element and sizes them to it. <hand-globe> wraps
+ * the same thing as a custom element configured through attributes, so a
+ * dashboard can hold several globes side by side.
+ */
+
+import styles from './handGlobe.css?inline';
+import { createGlobeScene, GlobeControls, GlobeScene } from './globe';
+import { createHandTracker, HandTracker, NO_HANDS } from './handTracking';
+import { createVideoFileSource } from './inputSources';
+import {
+    BindingEngine,
+    BindingProfile,
+    createBindingEngine,
+    DEFAULT_BINDING_PROFILE,
+} from './gestureBindings';
+import { createPointerControls } from './pointerControls';
+import { createMarkerLayer, GeoJSONFeatureCollection, MarkerLayer } from './markers';
+import { createElement } from './dom';
+
+export interface HandGlobeOptions {
+    /** Track hands; false leaves mouse, touch and keyboard only. Only the first tracking globe on a page gets the camera */
+    tracking: boolean;
+    /** Track this video clip instead of the webcam */
+    video?: string;
+    /** Show the tracked camera or clip behind the globe */
+    showCamera: boolean;
+    /** Celestial body id (see bodies.ts) */
+    body?: string;
+    /** Camera distance (1.8 – 8) */
+    zoom?: number;
+    /** Spin the globe while nobody is steering it (default: the profile's idleAutoRotate) */
+    autoRotate: boolean;
+    /** Moment the day/night terminator shows */
+    time?: Date | number;
+    /** Simulated seconds per real second */
+    timeSpeed?: number;
+    /** GeoJSON point collection to pin as markers */
+    markers?: string;
+    /** Gesture binding profile (default: DEFAULT_BINDING_PROFILE) */
+    profile?: BindingProfile;
+}
+
+/** Options setOptions can change without rebuilding the globe */
+export type LiveHandGlobeOptions = Pick<HandGlobeOptions, 'body' | 'zoom' | 'autoRotate' | 'time' | 'timeSpeed'>;
+
+export interface HandGlobe {
+    globe: GlobeScene;
+    controls: GlobeControls;
+    markers: MarkerLayer;
+    bindings: BindingEngine;
+    /** null while tracking is off or the globe is still loading */
+    getTracker: () => HandTracker | null;
+    setOptions: (options: Partial<LiveHandGlobeOptions>) => void;
+    /** Stop tracking, release the GPU context and remove the elements */
+    dispose: () => void;
+}
+
+export const DEFAULT_HAND_GLOBE_OPTIONS: HandGlobeOptions = {
+    tracking: true,
+    showCamera: true,
+    autoRotate: true,
+};
+
+// The tracker of the one globe allowed to use the camera
+let cameraTracker: HandTracker | null = null;
+
+/**
+ * Mount a globe into `container`, which only needs a size. Returns once the
+ * scene exists; textures and hand tracking keep loading in the background.
+ */
+export function createHandGlobe(container: HTMLElement, options: Partial<HandGlobeOptions> = {}): HandGlobe {
+    const opts: HandGlobeOptions = { ...DEFAULT_HAND_GLOBE_OPTIONS, ...options };
+
+    // ========== Elements ==========
+    const root = createElement('div', 'hand-globe');
+    root.tabIndex = 0; // focus (e.g. by clicking the globe) routes the arrow keys here
+    const style = document.createElement('style');
+    style.textContent = styles;
+    const video = createElement('video', 'hand-globe-video');
+    video.autoplay = true;
+    video.playsInline = true;
+    video.muted = true;
+    video.classList.toggle('hidden', !opts.showCamera);
+    const handCanvas = createElement('canvas', 'hand-globe-hands');
+    const canvas = createElement('canvas', 'hand-globe-canvas');
+    const labels = createElement('div', 'hand-globe-labels');
+    const status = createElement('div', 'hand-globe-status');
+    const statusDot = createElement('span', 'hand-globe-dot');
+    const statusText = createElement('span', 'hand-globe-status-text');
+    status.append(statusDot, statusText);
+    status.classList.toggle('hidden', !opts.tracking);
+    statusText.textContent = 'Loading…';
+    root.append(style, video, handCanvas, canvas, labels, status);
+    container.append(root);
+
+    // ========== Globe ==========
+    let tracker: HandTracker | null = null;
+    let disposed = false;
+
+    const globe = createGlobeScene(
+        canvas,
+        (progress) => {
+            // Like the full app, the model loads once the textures are in
+            if (progress >= 100 && opts.tracking && !disposed) startTracking();
+        },
+        { container: root }
+    );
+    const { controls } = globe;
+    const pointer = createPointerControls(canvas, controls, { keyTarget: root });
+    const markers = createMarkerLayer(globe, labels);
+    const bindings = createBindingEngine(controls, opts.profile ?? DEFAULT_BINDING_PROFILE);
+
+    if (opts.markers) {
+        fetch(opts.markers)
+            .then((res) => res.json())
+            .then((data) => markers.loadGeoJSON(data as GeoJSONFeatureCollection))
+            .catch((err) => console.error('Could not load markers:', err));
+    }
+
+    function setOptions(next: Partial<LiveHandGlobeOptions>) {
+        Object.assign(opts, next);
+        if (next.body !== undefined) {
+            controls.setBody(next.body).catch((err) => console.error('Could not switch body:', err));
+        }
+        if (next.zoom !== undefined) controls.setZoom(next.zoom);
+        if (next.time !== undefined) controls.setTime(next.time);
+        if (next.timeSpeed !== undefined) controls.setTimeSpeed(next.timeSpeed);
+        if (next.autoRotate !== undefined) {
+            controls.setAutoRotate(next.autoRotate);
+            bindings.setProfile({ ...bindings.getProfile(), idleAutoRotate: next.autoRotate });
+        }
+    }
+    // Without an explicit autoRotate a caller's profile keeps its own idleAutoRotate
+    if (options.autoRotate === undefined) opts.autoRotate = bindings.getProfile().idleAutoRotate !== false;
+    setOptions(opts);
+
+    // ========== Hand Tracking ==========
+    async function startTracking() {
+        if (tracker) return;
+        // One webcam stream and MediaPipe model per page; later globes stay on mouse, touch and keyboard
+        if (cameraTracker) {
+            statusText.textContent = 'Hand tracking is in use by another globe';
+            statusDot.className = 'hand-globe-dot error';
+            return;
+        }
+        tracker = createHandTracker(
+            video,
+            handCanvas,
+            (trackingStatus, message) => {
+                statusText.textContent = message;
+                statusDot.className = 'hand-globe-dot';
+                if (trackingStatus !== 'loading') statusDot.classList.add(trackingStatus);
+            },
+            opts.video ? { source: createVideoFileSource(opts.video) } : {}
+        );
+        cameraTracker = tracker;
+        tracker.onMotionGesture((e) => {
+            if (tracker && !pointer.isActive()) bindings.handleMotion(e, tracker.getState());
+        });
+
+        try {
+            await tracker.start();
+        } catch (err) {
+            console.error('Hand tracking failed:', err);
+            statusText.textContent = 'Hand tracking failed';
+            statusDot.className = 'hand-globe-dot error';
+        }
+    }
+
+    // Mouse, touch and keyboard win over hands while in use (as in the full app).
+    // Runs without a tracker too: the idle fallback is what turns auto-rotate back on after manual input
+    function controlLoop() {
+        if (disposed) return;
+        if (pointer.isActive()) bindings.reset();
+        else bindings.update(tracker?.getState() ?? NO_HANDS);
+        requestAnimationFrame(controlLoop);
+    }
+    requestAnimationFrame(controlLoop);
+
+    return {
+        globe,
+        controls,
+        markers,
+        bindings,
+        getTracker: () => tracker,
+        setOptions,
+
+        dispose() {
+            disposed = true;
+            if (tracker && cameraTracker === tracker) cameraTracker = null;
+            tracker?.dispose();
+            tracker = null;
+            pointer.dispose();
+            markers.dispose();
+            globe.dispose();
+            root.remove();
+        },
+    };
+}
+
+// ========== Custom Element ==========
+
+// Attributes applied in place; changing any other one rebuilds the globe
+const LIVE_ATTRIBUTES: Record<string, keyof LiveHandGlobeOptions> = {
+    body: 'body',
+    zoom: 'zoom',
+    'auto-rotate': 'autoRotate',
+    time: 'time',
+    'time-speed': 'timeSpeed',
+};
+const REBUILD_ATTRIBUTES = ['tracking', 'video', 'camera', 'markers'];
+
+/** "false" / "off" / "0" switch a boolean attribute off; presence or any other value means on */
+function booleanAttribute(value: string | null, fallback: boolean): boolean {
+    if (value === null) return fallback;
+    return !['false', 'off', '0'].includes(value.trim().toLowerCase());
+}
+
+function numberAttribute(value: string | null): number | undefined {
+    return value !== null && value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined;
+}
+
+/**
+ * <hand-globe body="mars" zoom="4" tracking="off" style="height: 320px"></hand-globe>
+ *
+ * Attributes: body, zoom, auto-rotate, time (ISO date), time-speed, tracking,
+ * video (clip URL), camera (show the feed behind the globe), markers (GeoJSON URL).
+ * The scripting API is on `element.handGlobe` while it is connected.
+ */
+export class HandGlobeElement extends HTMLElement {
+    static observedAttributes = [...Object.keys(LIVE_ATTRIBUTES), ...REBUILD_ATTRIBUTES];
+
+    handGlobe: HandGlobe | null = null;
+    private readonly mount: HTMLDivElement;
+
+    constructor() {
+        super();
+        this.mount = document.createElement('div');
+        this.mount.style.cssText = 'position: absolute; inset: 0;';
+        this.attachShadow({ mode: 'open' }).append(this.mount);
+    }
+
+    connectedCallback() {
+        if (this.handGlobe) return;
+        this.handGlobe = createHandGlobe(this.mount, {
+            ...this.liveOptions(),
+            tracking: booleanAttribute(this.getAttribute('tracking'), true),
+            video: this.getAttribute('video') ?? undefined,
+            showCamera: booleanAttribute(this.getAttribute('camera'), true),
+            markers: this.getAttribute('markers') ?? undefined,
+        });
+    }
+
+    disconnectedCallback() {
+        this.handGlobe?.dispose();
+        this.handGlobe = null;
+    }
+
+    attributeChangedCallback(name: string, oldValue: string | null, value: string | null) {
+        if (!this.handGlobe || oldValue === value) return;
+        const key = LIVE_ATTRIBUTES[name];
+        if (key) {
+            this.handGlobe.setOptions({ [key]: this.liveOptions()[key] });
+        } else {
+            this.disconnectedCallback();
+            this.connectedCallback();
+        }
+    }
+
+    private liveOptions(): Partial<LiveHandGlobeOptions> {
+        const time = this.getAttribute('time');
+        return {
+            body: this.getAttribute('body') ?? undefined,
+            zoom: numberAttribute(this.getAttribute('zoom')),
+            autoRotate: booleanAttribute(this.getAttribute('auto-rotate'), true),
+            time: time && !Number.isNaN(Date.parse(time)) ? Date.parse(time) : undefined,
+            timeSpeed: numberAttribute(this.getAttribute('time-speed')),
+        };
+    }
+}
+
+/** Register <hand-globe> (or another tag name); safe to call more than once */
+export function defineHandGlobe(tagName = 'hand-globe') {
+    if (!customElements.get(tagName)) customElements.define(tagName, HandGlobeElement);
+}
@@ -0,0 +1,125 @@
+/**
+ * Hand Identity – Persistent IDs and handedness across frames
+ * MediaPipe's hand order is not stable, so detections are matched to
+ * previously seen hands by palm position and handedness
+ */
+
+import type { Handedness } from '@mediapipe/hands';
+
+export type HandSide = 'Left' | 'Right';
+
+export interface HandDetection {
+    palmCenter: { x: number; y: number };
+    handedness?: Handedness;
+}
+
+export interface IdentifiedHand {
+    id: number;
+    detectionIndex: number; // index into this frame's multiHandLandmarks
+    handedness: HandSide;
+    handednessScore: number; // 0..1, smoothed agreement with `handedness`
+}
+
+export interface HandAssignment {
+    hands: IdentifiedHand[]; // sorted by id, oldest hand first
+    lost: number[]; // ids that have not been seen for longer than the grace period
+}
+
+export interface HandIdentityTracker {
+    assign: (detections: HandDetection[], now: number) => HandAssignment;
+    reset: () => HandAssignment['lost'];
+}
+
+interface KnownHand {
+    id: number;
+    palm: { x: number; y: number };
+    lastSeen: number;
+    rightness: number; // EMA of "is right hand" votes, 0..1
+}
+
+// Max palm travel (normalized image units) between frames for the same hand
+const MAX_MATCH_DISTANCE = 0.3;
+// Extra matching cost when MediaPipe disagrees about which hand it is
+const HANDEDNESS_MISMATCH_COST = 0.15;
+// How long a hand may go undetected before its id is released
+const LOST_GRACE_MS = 150;
+const HANDEDNESS_SMOOTHING = 0.2;
+
+/**
+ * MediaPipe labels handedness assuming a mirrored (selfie) image. We send
+ * the raw camera frame and only mirror it with CSS, so labels are swapped.
+ */
+function sideOf(handedness: Handedness): HandSide {
+    return handedness.label === 'Left' ? 'Right' : 'Left';
+}
+
+export function createHandIdentityTracker(): HandIdentityTracker {
+    let known: KnownHand[] = [];
+    let nextId = 0;
+
+    function assign(detections: HandDetection[], now: number): HandAssignment {
+        // Score every detection/known-hand pair, then match greedily by lowest cost
+        const pairs: { d: number; k: KnownHand; cost: number }[] = [];
+        detections.forEach((det, d) => {
+            for (const k of known) {
+                const dist = Math.hypot(det.palmCenter.x - k.palm.x, det.palmCenter.y - k.palm.y);
+                if (dist > MAX_MATCH_DISTANCE) continue;
+                const side = det.handedness ? sideOf(det.handedness) : null;
+                const knownSide: HandSide = k.rightness >= 0.5 ? 'Right' : 'Left';
+                const cost = dist + (side && side !== knownSide ? HANDEDNESS_MISMATCH_COST : 0);
+                pairs.push({ d, k, cost });
+            }
+        });
+        pairs.sort((a, b) => a.cost - b.cost);
+
+        const matched = new Map<number, KnownHand>();
+        const used = new Set<KnownHand>();
+        for (const { d, k } of pairs) {
+            if (matched.has(d) || used.has(k)) continue;
+            matched.set(d, k);
+            used.add(k);
+        }
+
+        const hands: IdentifiedHand[] = detections.map((det, d) => {
+            let k = matched.get(d);
+            const isNew = !k;
+            if (!k) {
+                k = { id: nextId++, palm: det.palmCenter, lastSeen: now, rightness: 0.5 };
+                known.push(k);
+            }
+
+            k.palm = det.palmCenter;
+            k.lastSeen = now;
+            if (det.handedness) {
+                const vote = sideOf(det.handedness) === 'Right' ? 1 : 0;
+                // First sighting adopts MediaPipe's label outright
+                k.rightness = isNew
+                    ? vote
+                    : k.rightness + (vote - k.rightness) * HANDEDNESS_SMOOTHING;
+            }
+
+            const handedness: HandSide = k.rightness >= 0.5 ? 'Right' : 'Left';
+            return {
+                id: k.id,
+                detectionIndex: d,
+                handedness,
+                handednessScore: handedness === 'Right' ? k.rightness : 1 - k.rightness,
+            };
+        });
+
+        const lost = known.filter((k) => now - k.lastSeen > LOST_GRACE_MS).map((k) => k.id);
+        known = known.filter((k) => !lost.includes(k.id));
+
+        hands.sort((a, b) => a.id - b.id);
+        return { hands, lost };
+    }
+
+    return {
+        assign,
+        reset() {
+            const lost = known.map((k) => k.id);
+            known = [];
+            return lost;
+        },
+    };
+}
@@ -1,205 +1,383 @@
 /**
- * Hand Particles – Animated particles emanating from hand landmarks
- * Creates glowing convergent particle effects on the Three.js scene
- * that follow the hand position
+ * Hand Particles – Per-gesture particle emitters that follow every tracked hand
+ * All particles live in one fixed-size ring buffer: spawning overwrites the
+ * oldest slot and nothing is allocated per frame. Each gesture picks an
+ * emitter preset – fingertips converge on a pinch, a fist bursts, an open
+ * hand leaves a trail.
  */
 
 import * as THREE from 'three';
 import type { NormalizedLandmark } from '@mediapipe/hands';
+import type { GlobeScene } from './globe';
+import type { GestureType, TrackedHand } from './handTracking';
 
-interface Particle {
-    position: THREE.Vector3;
-    velocity: THREE.Vector3;
-    life: number;
-    maxLife: number;
-    size: number;
+export type EmitterKind = 'converge' | 'burst' | 'trail';
+
+export interface EmitterPreset {
+    kind: EmitterKind;
+    /** converge / trail: particles per second; burst: particles per burst */
+    rate: number;
+    /** burst: outward speed; trail: upward drift (world units per second) */
+    speed: number;
+    /** Random velocity added to every particle (world units per second) */
+    jitter: number;
+    /** Fraction of velocity left after one second (1 = no drag) */
+    drag: number;
+    lifeMs: [number, number];
+    size: [number, number];
+    color: string;
 }
 
-export class HandParticles {
-    private scene: THREE.Scene;
-    private camera: THREE.Camera;
-    private particles: Particle[] = [];
-    private geometry: THREE.BufferGeometry;
-    private material: THREE.ShaderMaterial;
-    private points: THREE.Points;
-    private maxParticles = 200;
-    private positions: Float32Array;
-    private sizes: Float32Array;
-    private opacities: Float32Array;
-    private active = false;
-
-    constructor(scene: THREE.Scene, camera: THREE.Camera) {
-        this.scene = scene;
-        this.camera = camera;
-
-        this.positions = new Float32Array(this.maxParticles * 3);
-        this.sizes = new Float32Array(this.maxParticles);
-        this.opacities = new Float32Array(this.maxParticles);
-
-        this.geometry = new THREE.BufferGeometry();
-        this.geometry.setAttribute('position', new THREE.BufferAttribute(this.positions, 3));
-        this.geometry.setAttribute('size', new THREE.BufferAttribute(this.sizes, 1));
-        this.geometry.setAttribute('opacity', new THREE.BufferAttribute(this.opacities, 1));
-
-        this.material = new THREE.ShaderMaterial({
-            uniforms: {
-                uColor1: { value: new THREE.Color(0x4fc3f7) },
-                uColor2: { value: new THREE.Color(0x7c4dff) },
-            },
-            vertexShader: `
-        attribute float size;
-        attribute float opacity;
-        varying float vOpacity;
-        void main() {
-          vOpacity = opacity;
-          vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
-          gl_PointSize = size * (200.0 / -mvPosition.z);
-          gl_Position = projectionMatrix * mvPosition;
-        }
-      `,
-            fragmentShader: `
-        uniform vec3 uColor1;
-        uniform vec3 uColor2;
-        varying float vOpacity;
-        void main() {
-          vec2 center = gl_PointCoord - vec2(0.5);
-          float dist = length(center);
-          if (dist > 0.5) discard;
-          float alpha = 1.0 - smoothstep(0.0, 0.5, dist);
-          alpha *= alpha;
-          vec3 color = mix(uColor1, uColor2, dist * 2.0);
-          gl_FragColor = vec4(color, alpha * vOpacity);
+export interface HandParticleOptions {
+    /** Particle budget shared by all hands; when it runs out the oldest particle is recycled */
+    maxParticles: number;
+    presets: Partial<Record<GestureType, EmitterPreset>>;
+    /** Distance in front of the camera the particles live at */
+    depth: number;
+}
+
+export interface HandParticles {
+    /** Emit for each hand and advance the simulation; call once per frame */
+    update: (hands: TrackedHand[], now: number) => void;
+    /** Changing maxParticles reallocates the pool (and clears it) */
+    setOptions: (options: Partial<HandParticleOptions>) => void;
+    clear: () => void;
+    dispose: () => void;
+}
+
+export const DEFAULT_PARTICLE_PRESETS: Partial<Record<GestureType, EmitterPreset>> = {
+    // Fingertips stream into the pinch point
+    pinch: {
+        kind: 'converge', rate: 90, speed: 0, jitter: 0.02, drag: 1,
+        lifeMs: [350, 600], size: [0.1, 0.25], color: '#4fc3f7',
+    },
+    // Sparks fly off the fist as it closes
+    fist: {
+        kind: 'burst', rate: 80, speed: 0.9, jitter: 0.1, drag: 0.05,
+        lifeMs: [400, 800], size: [0.12, 0.3], color: '#ffab40',
+    },
+    // The open palm leaves a fading trail
+    open: {
+        kind: 'trail', rate: 60, speed: 0.05, jitter: 0.05, drag: 0.3,
+        lifeMs: [500, 900], size: [0.08, 0.22], color: '#7c4dff',
+    },
+};
+
+export const DEFAULT_HAND_PARTICLE_OPTIONS: HandParticleOptions = {
+    maxParticles: 600,
+    presets: DEFAULT_PARTICLE_PRESETS,
+    depth: 2,
+};
+
+const TIPS = [4, 8, 12, 16, 20];
+const MAX_STEP_MS = 100; // after a stall, don't fling particles across the screen
+
+interface EmitterState {
+    gesture: GestureType;
+    carry: number; // fractional particles owed from previous frames
+    lastPalm: THREE.Vector3;
+    hasLast: boolean;
+    seen: number; // frame the hand was last updated in
+}
+
+const vertexShader = `
+    attribute float size;
+    attribute float opacity;
+    attribute vec3 tint;
+    varying float vOpacity;
+    varying vec3 vTint;
+    void main() {
+        vOpacity = opacity;
+        vTint = tint;
+        vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+        gl_PointSize = size * (200.0 / -mvPosition.z);
+        gl_Position = projectionMatrix * mvPosition;
+    }
+`;
+
+const fragmentShader = `
+    varying float vOpacity;
+    varying vec3 vTint;
+    void main() {
+        vec2 center = gl_PointCoord - vec2(0.5);
+        float dist = length(center);
+        if (dist > 0.5) discard;
+        float alpha = 1.0 - smoothstep(0.0, 0.5, dist);
+        alpha *= alpha;
+        // White-hot core fading into the preset color
+        vec3 color = mix(vec3(1.0), vTint, min(dist * 3.0, 1.0));
+        gl_FragColor = vec4(color, alpha * vOpacity);
+    }
+`;
+
+function randomIn([min, max]: [number, number]) {
+    return min + Math.random() * (max - min);
+}
+
+export function createHandParticles(
+    globe: GlobeScene,
+    options: Partial<HandParticleOptions> = {}
+): HandParticles {
+    let opts: HandParticleOptions = { ...DEFAULT_HAND_PARTICLE_OPTIONS, ...options };
+    const { scene, camera } = globe;
+
+    // ========== Pool ==========
+    // Struct of arrays; position, size, opacity and tint go straight to the GPU
+    let budget = 0;
+    let head = 0; // next slot to (over)write
+    let positions = new Float32Array(0);
+    let tints = new Float32Array(0);
+    let sizes = new Float32Array(0);
+    let opacities = new Float32Array(0);
+    let velocities = new Float32Array(0);
+    let ages = new Float32Array(0); // ms; a particle is dead once age >= lifetime
+    let lifetimes = new Float32Array(0);
+    let baseSizes = new Float32Array(0);
+    let drags = new Float32Array(0);
+    let alive = 0;
+
+    const geometry = new THREE.BufferGeometry();
+    const material = new THREE.ShaderMaterial({
+        vertexShader,
+        fragmentShader,
+        transparent: true,
+        depthWrite: false,
+        depthTest: false, // hands are in front of everything, even a close-up globe
+        blending: THREE.AdditiveBlending,
+    });
+    const points = new THREE.Points(geometry, material);
+    points.frustumCulled = false; // the bounding sphere would go stale every frame
+    points.renderOrder = 10;
+    scene.add(points);
+
+    function allocate(size: number) {
+        budget = Math.max(1, Math.floor(size));
+        head = 0;
+        alive = 0;
+        positions = new Float32Array(budget * 3);
+        tints = new Float32Array(budget * 3);
+        sizes = new Float32Array(budget);
+        opacities = new Float32Array(budget);
+        velocities = new Float32Array(budget * 3);
+        ages = new Float32Array(budget);
+        lifetimes = new Float32Array(budget);
+        baseSizes = new Float32Array(budget);
+        drags = new Float32Array(budget);
+
+        geometry.dispose(); // frees the old GPU buffers
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        geometry.setAttribute('tint', new THREE.BufferAttribute(tints, 3));
+        geometry.setAttribute('size', new THREE.BufferAttribute(sizes, 1));
+        geometry.setAttribute('opacity', new THREE.BufferAttribute(opacities, 1));
+    }
+    allocate(opts.maxParticles);
+
+    // Preset colors parsed once, not per spawn
+    const presetTints = new Map<EmitterPreset, THREE.Color>();
+    function parseTints() {
+        presetTints.clear();
+        for (const preset of Object.values(opts.presets)) {
+            if (preset) presetTints.set(preset, new THREE.Color(preset.color));
         }
-      `,
-            transparent: true,
-            depthWrite: false,
-            blending: THREE.AdditiveBlending,
-        });
-
-        this.points = new THREE.Points(this.geometry, this.material);
-        this.scene.add(this.points);
     }
+    parseTints();
 
-    /**
-     * Convert screen-space hand coordinates to world-space
-     */
-    private screenToWorld(x: number, y: number): THREE.Vector3 {
-        // Convert from [0,1] to NDC [-1,1]
-        const ndcX = (1 - x) * 2 - 1; // Mirror x for mirrored webcam
-        const ndcY = -(y * 2 - 1);
+    /** Claim the oldest slot at (x, y, z) with jittered velocity; returns its index */
+    function spawn(preset: EmitterPreset, at: THREE.Vector3): number {
+        const i = head;
+        head = (head + 1) % budget;
 
-        const vec = new THREE.Vector3(ndcX, ndcY, 0.5);
-        vec.unproject(this.camera);
+        const i3 = i * 3;
+        positions[i3] = at.x;
+        positions[i3 + 1] = at.y;
+        positions[i3 + 2] = at.z;
+        velocities[i3] = (Math.random() - 0.5) * preset.jitter;
+        velocities[i3 + 1] = (Math.random() - 0.5) * preset.jitter;
+        velocities[i3 + 2] = (Math.random() - 0.5) * preset.jitter;
 
-        const dir = vec.sub(this.camera.position).normalize();
-        const distance = 2; // Place particles at reasonable depth
-        return this.camera.position.clone().add(dir.multiplyScalar(distance));
+        const tint = presetTints.get(preset)!;
+        tints[i3] = tint.r;
+        tints[i3 + 1] = tint.g;
+        tints[i3 + 2] = tint.b;
+
+        ages[i] = 0;
+        lifetimes[i] = randomIn(preset.lifeMs);
+        baseSizes[i] = randomIn(preset.size);
+        drags[i] = preset.drag;
+        return i;
     }
 
-    /**
-     * Spawn particles from hand tip positions converging to palm center
-     */
-    update(landmarks: NormalizedLandmark[] | null, gesture: string) {
-        if (landmarks && gesture !== 'none') {
-            this.active = true;
-
-            // Fingertip positions
-            const tipIndices = [4, 8, 12, 16, 20];
-            const palmCenter = this.screenToWorld(
-                landmarks[9].x, // Middle finger base ≈ palm center
-                landmarks[9].y
-            );
-
-            // Spawn particles from fingertips
-            if (Math.random() < 0.6) {
-                tipIndices.forEach((idx) => {
-                    if (Math.random() < 0.4) {
-                        const tipPos = this.screenToWorld(
-                            landmarks[idx].x,
-                            landmarks[idx].y
-                        );
-
-                        // Direction towards palm center
-                        const dir = palmCenter.clone().sub(tipPos).normalize();
-                        const speed = 0.01 + Math.random() * 0.02;
-
-                        this.particles.push({
-                            position: tipPos.clone(),
-                            velocity: dir.multiplyScalar(speed).add(
-                                new THREE.Vector3(
-                                    (Math.random() - 0.5) * 0.005,
-                                    (Math.random() - 0.5) * 0.005,
-                                    (Math.random() - 0.5) * 0.005
-                                )
-                            ),
-                            life: 0,
-                            maxLife: 40 + Math.random() * 30,
-                            size: 2 + Math.random() * 4,
-                        });
-                    }
-                });
-
-                // Spawn some from palm center outward
-                if (gesture === 'open') {
-                    for (let i = 0; i < 2; i++) {
-                        this.particles.push({
-                            position: palmCenter.clone(),
-                            velocity: new THREE.Vector3(
-                                (Math.random() - 0.5) * 0.015,
-                                (Math.random() - 0.5) * 0.015,
-                                (Math.random() - 0.5) * 0.015
-                            ),
-                            life: 0,
-                            maxLife: 30 + Math.random() * 20,
-                            size: 1 + Math.random() * 3,
-                        });
-                    }
-                }
-            }
-        } else {
-            this.active = false;
+    // ========== Emitters ==========
+    // Scratch vectors: every per-frame computation reuses these
+    const ray = new THREE.Vector3();
+    const palm = new THREE.Vector3();
+    const target = new THREE.Vector3();
+    const from = new THREE.Vector3();
+    const tmp = new THREE.Vector3();
+
+    /** Landmark (mirrored video coordinates) → world point `depth` in front of the camera */
+    function toWorld(lm: { x: number; y: number }, out: THREE.Vector3) {
+        out.set((1 - lm.x) * 2 - 1, -(lm.y * 2 - 1), 0.5).unproject(camera);
+        ray.copy(out).sub(camera.position).normalize();
+        return out.copy(camera.position).addScaledVector(ray, opts.depth);
+    }
+
+    /** Whole particles due this frame at `rate` per second */
+    function due(state: EmitterState, rate: number, dt: number) {
+        state.carry += (rate * dt) / 1000;
+        const n = Math.floor(state.carry);
+        state.carry -= n;
+        return n;
+    }
+
+    function emitConverge(landmarks: NormalizedLandmark[], preset: EmitterPreset, n: number) {
+        // Pinch point: between thumb and index tips
+        toWorld(landmarks[4], target);
+        toWorld(landmarks[8], tmp);
+        target.add(tmp).multiplyScalar(0.5);
+
+        for (let k = 0; k < n; k++) {
+            toWorld(landmarks[TIPS[Math.floor(Math.random() * TIPS.length)]], from);
+            const i = spawn(preset, from);
+            // Timed to arrive as it fades out
+            const seconds = lifetimes[i] / 1000;
+            velocities[i * 3] += (target.x - from.x) / seconds;
+            velocities[i * 3 + 1] += (target.y - from.y) / seconds;
+            velocities[i * 3 + 2] += (target.z - from.z) / seconds;
         }
+    }
+
+    function emitBurst(preset: EmitterPreset) {
+        for (let k = 0; k < preset.rate; k++) {
+            const i = spawn(preset, palm);
+            tmp.set(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5);
+            if (tmp.lengthSq() < 1e-6) tmp.set(0, 1, 0);
+            tmp.normalize().multiplyScalar(preset.speed * (0.5 + Math.random() * 0.5));
+            velocities[i * 3] += tmp.x;
+            velocities[i * 3 + 1] += tmp.y;
+            velocities[i * 3 + 2] += tmp.z;
+        }
+    }
+
+    function emitTrail(preset: EmitterPreset, state: EmitterState, n: number) {
+        for (let k = 0; k < n; k++) {
+            // Spread along the path since last frame so fast moves leave a continuous trail
+            if (state.hasLast) from.lerpVectors(state.lastPalm, palm, (k + Math.random()) / n);
+            else from.copy(palm);
+            const i = spawn(preset, from);
+            velocities[i * 3 + 1] += preset.speed;
+        }
+    }
+
+    const emitters = new Map<number, EmitterState>();
+    let frame = 0;
 
-        // Cap particles
-        while (this.particles.length > this.maxParticles) {
-            this.particles.shift();
+    function emit(hand: TrackedHand, dt: number) {
+        let state = emitters.get(hand.id);
+        if (!state) {
+            state = { gesture: 'none', carry: 0, lastPalm: new THREE.Vector3(), hasLast: false, seen: 0 };
+            emitters.set(hand.id, state);
         }
+        state.seen = frame;
 
-        // Update existing particles
-        for (let i = this.particles.length - 1; i >= 0; i--) {
-            const p = this.particles[i];
-            p.life++;
-            p.position.add(p.velocity);
+        const entered = state.gesture !== hand.gesture;
+        if (entered) state.carry = 0;
+        state.gesture = hand.gesture;
+        toWorld(hand.palmCenter, palm);
 
-            if (p.life >= p.maxLife) {
-                this.particles.splice(i, 1);
+        const preset = opts.presets[hand.gesture];
+        if (preset) {
+            switch (preset.kind) {
+                case 'converge':
+                    emitConverge(hand.landmarks, preset, due(state, preset.rate, dt));
+                    break;
+                case 'burst':
+                    if (entered) emitBurst(preset);
+                    break;
+                case 'trail':
+                    emitTrail(preset, state, due(state, preset.rate, dt));
+                    break;
             }
         }
 
-        // Update buffers
-        for (let i = 0; i < this.maxParticles; i++) {
-            if (i < this.particles.length) {
-                const p = this.particles[i];
-                const i3 = i * 3;
-                this.positions[i3] = p.position.x;
-                this.positions[i3 + 1] = p.position.y;
-                this.positions[i3 + 2] = p.position.z;
-                this.sizes[i] = p.size * (1 - p.life / p.maxLife);
-                this.opacities[i] = 1 - p.life / p.maxLife;
-            } else {
-                this.sizes[i] = 0;
-                this.opacities[i] = 0;
+        state.lastPalm.copy(palm);
+        state.hasLast = true;
+    }
+
+    function pruneStale(state: EmitterState, id: number) {
+        if (state.seen !== frame) emitters.delete(id);
+    }
+
+    // ========== Simulation ==========
+    function step(dt: number) {
+        const seconds = dt / 1000;
+        const wasAlive = alive;
+        alive = 0;
+
+        for (let i = 0; i < budget; i++) {
+            if (ages[i] >= lifetimes[i]) {
+                sizes[i] = 0;
+                opacities[i] = 0;
+                continue;
             }
+            alive++;
+            ages[i] += dt;
+
+            const i3 = i * 3;
+            const keep = drags[i] === 1 ? 1 : Math.pow(drags[i], seconds);
+            velocities[i3] *= keep;
+            velocities[i3 + 1] *= keep;
+            velocities[i3 + 2] *= keep;
+            positions[i3] += velocities[i3] * seconds;
+            positions[i3 + 1] += velocities[i3 + 1] * seconds;
+            positions[i3 + 2] += velocities[i3 + 2] * seconds;
+
+            const fade = 1 - Math.min(ages[i] / lifetimes[i], 1);
+            sizes[i] = baseSizes[i] * fade;
+            opacities[i] = fade;
         }
 
-        this.geometry.attributes.position.needsUpdate = true;
-        this.geometry.attributes.size.needsUpdate = true;
-        this.geometry.attributes.opacity.needsUpdate = true;
+        // Nothing moved and nothing to clear – skip the upload
+        if (alive === 0 && wasAlive === 0) return;
+        geometry.attributes.position.needsUpdate = true;
+        geometry.attributes.tint.needsUpdate = true;
+        geometry.attributes.size.needsUpdate = true;
+        geometry.attributes.opacity.needsUpdate = true;
     }
 
-    dispose() {
-        this.scene.remove(this.points);
-        this.geometry.dispose();
-        this.material.dispose();
+    let lastUpdate: number | null = null;
+
+    function clear() {
+        ages.fill(0);
+        lifetimes.fill(0);
+        emitters.clear();
+        step(0);
     }
+
+    return {
+        update(hands, now) {
+            const dt = lastUpdate === null ? 0 : Math.min(now - lastUpdate, MAX_STEP_MS);
+            lastUpdate = now;
+            frame++;
+
+            for (let h = 0; h < hands.length; h++) emit(hands[h], dt);
+            emitters.forEach(pruneStale);
+            step(dt);
+        },
+
+        setOptions(next) {
+            const resize = next.maxParticles !== undefined && next.maxParticles !== opts.maxParticles;
+            opts = { ...opts, ...next };
+            if (resize) allocate(opts.maxParticles);
+            if (next.presets) parseTints();
+        },
+
+        clear,
+
+        dispose() {
+            scene.remove(points);
+            geometry.dispose();
+            material.dispose();
+        },
+    };
 }
@@ -1,181 +1,285 @@
 /**
  * Hand Tracking Module
  * Uses MediaPipe Hands for real-time hand gesture recognition
- * Detects: Open Palm (rotate), Peace/2 fingers (zoom), Fist (stop)
+ * Classifies each hand's pose through a GestureRegistry (see gestures.ts)
  */
 
-import { Hands, Results, NormalizedLandmark } from '@mediapipe/hands';
-import { Camera } from '@mediapipe/camera_utils';
-
-export type GestureType = 'open' | 'pinch' | 'fist' | 'none';
+import { Hands, NormalizedLandmark } from '@mediapipe/hands';
+import { createWebcamSource, InputSource, LandmarkFrame } from './inputSources';
+import { createGestureRegistry, GestureRegistry, GestureType } from './gestures';
+import {
+    createGestureStateMachine,
+    DEFAULT_GESTURE_TIMING,
+    GestureEvent,
+    GestureStateMachine,
+    GestureTiming,
+} from './gestureStateMachine';
+import { createHandIdentityTracker, HandSide } from './handIdentity';
+import {
+    createMotionGestureRecognizer,
+    MotionGestureEvent,
+    MotionGestureOptions,
+} from './motionGestures';
+import { AssetRecord, resolveMediaPipeHands } from './assets';
+import { createEventBus, EventSource } from './events';
+
+export type { GestureType } from './gestures';
+export type { GestureEvent } from './gestureStateMachine';
+export type { HandSide } from './handIdentity';
+export type { MotionGestureEvent } from './motionGestures';
+
+type GestureListener = (event: GestureEvent) => void;
+
+export type TrackingStatus = 'loading' | 'active' | 'error';
+
+export interface TrackedHand {
+    id: number; // stable for as long as the hand stays in view
+    handedness: HandSide;
+    handednessScore: number; // 0..1
+    gesture: GestureType;
+    gestureConfidence: number; // 0..1
+    palmCenter: { x: number; y: number };
+    landmarks: NormalizedLandmark[];
+    pinchDistance: number; // 0 = fully pinched, 1 = fully open
+}
 
 export interface HandState {
+    // Primary hand (the longest-tracked one, i.e. hands[0])
     gesture: GestureType;
     palmCenter: { x: number; y: number } | null;
     landmarks: NormalizedLandmark[] | null;
     pinchDistance: number; // 0 = fully pinched, 1 = fully open
-    // Second hand
-    secondGesture: GestureType;
-    secondPalmCenter: { x: number; y: number } | null;
+    gestureConfidence: number; // 0..1
+    // Every tracked hand, oldest first
+    hands: TrackedHand[];
     handCount: number;
 }
 
+/** State with no hand in view, e.g. for control loops running without a tracker */
+export const NO_HANDS: HandState = {
+    gesture: 'none',
+    palmCenter: null,
+    landmarks: null,
+    pinchDistance: 1,
+    gestureConfidence: 0,
+    hands: [],
+    handCount: 0,
+};
+
+export interface HandTrackerEvents {
+    gestureStart: GestureEvent;
+    gestureHold: GestureEvent;
+    gestureEnd: GestureEvent;
+    /** Swipes, circles and flicks */
+    motionGesture: MotionGestureEvent;
+    /** A hand got a new id (came into view) */
+    handEnter: TrackedHand;
+    /** A hand was lost; the payload is its last known state */
+    handLeave: TrackedHand;
+    status: { status: TrackingStatus; message: string };
+    /** Every raw landmark frame */
+    frame: LandmarkFrame;
+}
+
+/** Detection settings that can change while tracking runs */
+export interface TrackingSettings {
+    maxNumHands: number;
+    minDetectionConfidence: number; // 0..1
+    minTrackingConfidence: number; // 0..1
+    /** Dwell for gestures whose rule sets no enterMs / exitMs */
+    gestureTiming: GestureTiming;
+}
+
+export const DEFAULT_TRACKING_SETTINGS: TrackingSettings = {
+    maxNumHands: 2,
+    minDetectionConfidence: 0.6,
+    minTrackingConfidence: 0.5,
+    gestureTiming: DEFAULT_GESTURE_TIMING,
+};
+
 export interface HandTracker {
+    /** Typed subscriptions to everything below, plus hand enter/leave and status */
+    events: EventSource<HandTrackerEvents>;
     start: () => Promise<void>;
+    /** Stop the current input source and start tracking from another one */
+    setSource: (source: InputSource) => Promise<void>;
+    getSource: () => InputSource;
+    /** Observe every raw landmark frame (e.g. for recording). Returns an unsubscribe function */
+    onFrame: (listener: (frame: LandmarkFrame) => void) => () => void;
+    /** Gesture transitions per hand; `event.hand` is the TrackedHand id */
+    onGestureStart: (listener: GestureListener) => () => void;
+    onGestureHold: (listener: GestureListener) => () => void;
+    onGestureEnd: (listener: GestureListener) => () => void;
+    /** Swipes, circles and flicks recognized from each hand's trajectory */
+    onMotionGesture: (listener: (event: MotionGestureEvent) => void) => () => void;
     getState: () => HandState;
+    setSettings: (settings: Partial<TrackingSettings>) => void;
+    getSettings: () => TrackingSettings;
+    /** Where the MediaPipe model was loaded from; null until the first camera/video source starts */
+    getModelAsset: () => AssetRecord | null;
     dispose: () => void;
 }
 
+export interface HandTrackerOptions {
+    /** Where frames come from (default: webcam) */
+    source?: InputSource;
+    /** Gesture vocabulary used to classify each hand (default: built-in gestures) */
+    gestures?: GestureRegistry;
+    /** Thresholds for swipe/circle/flick recognition */
+    motion?: Partial<MotionGestureOptions>;
+    /** Detection settings on top of DEFAULT_TRACKING_SETTINGS */
+    settings?: Partial<TrackingSettings>;
+}
+
 export function createHandTracker(
     videoElement: HTMLVideoElement,
     overlayCanvas: HTMLCanvasElement,
-    onStatusChange: (status: 'loading' | 'active' | 'error', message: string) => void
+    onStatusChange: (status: TrackingStatus, message: string) => void,
+    options: HandTrackerOptions = {}
 ): HandTracker {
-    let state: HandState = {
-        gesture: 'none',
-        palmCenter: null,
-        landmarks: null,
-        pinchDistance: 1,
-        secondGesture: 'none',
-        secondPalmCenter: null,
-        handCount: 0,
+    let state: HandState = { ...NO_HANDS, hands: [] };
+
+    let source = options.source ?? createWebcamSource();
+    const gestures = options.gestures ?? createGestureRegistry();
+    const events = createEventBus<HandTrackerEvents>();
+    let settings: TrackingSettings = { ...DEFAULT_TRACKING_SETTINGS, ...options.settings };
+
+    function setStatus(status: TrackingStatus, message: string) {
+        onStatusChange(status, message);
+        events.emit('status', { status, message });
+    }
+
+    // Gesture smoothing: one state machine per hand with per-gesture dwell times
+    const getTiming = (gesture: GestureType) => {
+        const rule = gestures.get(gesture);
+        return {
+            enterMs: rule?.enterMs ?? settings.gestureTiming.enterMs,
+            exitMs: rule?.exitMs ?? settings.gestureTiming.exitMs,
+        };
     };
+    const machines = new Map<number, GestureStateMachine>();
+    const identities = createHandIdentityTracker();
+    const motion = createMotionGestureRecognizer(options.motion);
+    const present = new Map<number, TrackedHand>(); // last state of each hand in view, for handLeave
+
+    function machineFor(id: number) {
+        let machine = machines.get(id);
+        if (!machine) {
+            machine = createGestureStateMachine(id, getTiming, {
+                onStart: (e) => events.emit('gestureStart', e),
+                onHold: (e) => events.emit('gestureHold', e),
+                onEnd: (e) => events.emit('gestureEnd', e),
+            });
+            machines.set(id, machine);
+        }
+        return machine;
+    }
+
+    function releaseHands(ids: number[], now: number) {
+        for (const id of ids) {
+            machines.get(id)?.reset(now);
+            machines.delete(id);
+            motion.release(id);
 
-    let mediaCamera: Camera | null = null;
-    // Gesture smoothing: require N consecutive frames of the same gesture
-    let gestureBuffer: GestureType = 'none';
-    let gestureCount = 0;
-    const GESTURE_THRESHOLD = 1; // respond immediately to gesture changes
+            const hand = present.get(id);
+            present.delete(id);
+            if (hand) events.emit('handLeave', hand);
+        }
+    }
     const ctx = overlayCanvas.getContext('2d')!;
 
+    // Resolved on first start: the bundled copy if it's served, otherwise a CDN mirror
+    let modelAsset: AssetRecord | null = null;
     const hands = new Hands({
-        locateFile: (file) =>
-            `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
+        locateFile: (file) => `${modelAsset?.url}${file}`,
     });
 
-    hands.setOptions({
-        maxNumHands: 2,
-        modelComplexity: 1,
-        minDetectionConfidence: 0.6,
-        minTrackingConfidence: 0.5,
-    });
+    function applyHandsOptions() {
+        hands.setOptions({
+            maxNumHands: settings.maxNumHands,
+            modelComplexity: 1,
+            minDetectionConfidence: settings.minDetectionConfidence,
+            minTrackingConfidence: settings.minTrackingConfidence,
+        });
+    }
+    applyHandsOptions();
 
     hands.onResults(onResults);
 
-    function onResults(results: Results) {
-        overlayCanvas.width = overlayCanvas.clientWidth;
-        overlayCanvas.height = overlayCanvas.clientHeight;
-        ctx.clearRect(0, 0, overlayCanvas.width, overlayCanvas.height);
-
-        if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-            state.handCount = results.multiHandLandmarks.length;
-
-            // Draw ALL detected hands
-            for (const handLandmarks of results.multiHandLandmarks) {
-                drawHandVisualization(ctx, handLandmarks, overlayCanvas.width, overlayCanvas.height);
-            }
-
-            // Helper: get palm center from landmarks
-            function getPalmCenter(lm: NormalizedLandmark[]) {
-                const palmIndices = [0, 5, 9, 13, 17];
-                let cx = 0, cy = 0;
-                palmIndices.forEach((idx) => {
-                    cx += lm[idx].x;
-                    cy += lm[idx].y;
-                });
-                return { x: cx / palmIndices.length, y: cy / palmIndices.length };
-            }
-
-            // First hand: gesture + palm
-            const landmarks = results.multiHandLandmarks[0];
-            state.landmarks = landmarks;
-
-            const detected = detectGesture(landmarks);
-            state.pinchDistance = detected.pinchDist;
-
-            // Gesture smoothing
-            if (detected.gesture === gestureBuffer) {
-                gestureCount++;
-            } else {
-                gestureBuffer = detected.gesture;
-                gestureCount = 1;
-            }
-            if (gestureCount >= GESTURE_THRESHOLD) {
-                state.gesture = gestureBuffer;
-            }
-
-            state.palmCenter = getPalmCenter(landmarks);
-
-            // Second hand (if present)
-            if (results.multiHandLandmarks.length >= 2) {
-                const landmarks2 = results.multiHandLandmarks[1];
-                const detected2 = detectGesture(landmarks2);
-                state.secondGesture = detected2.gesture;
-                state.secondPalmCenter = getPalmCenter(landmarks2);
-            } else {
-                state.secondGesture = 'none';
-                state.secondPalmCenter = null;
-            }
-        } else {
-            state.gesture = 'none';
-            state.palmCenter = null;
-            state.landmarks = null;
-            state.pinchDistance = 1;
-            state.secondGesture = 'none';
-            state.secondPalmCenter = null;
-            state.handCount = 0;
-        }
+    function getPalmCenter(lm: NormalizedLandmark[]) {
+        const palmIndices = [0, 5, 9, 13, 17];
+        let cx = 0, cy = 0;
+        palmIndices.forEach((idx) => {
+            cx += lm[idx].x;
+            cy += lm[idx].y;
+        });
+        return { x: cx / palmIndices.length, y: cy / palmIndices.length };
     }
 
-    function isFingerExtended(landmarks: NormalizedLandmark[], tipIdx: number, pipIdx: number): boolean {
-        return landmarks[tipIdx].y < landmarks[pipIdx].y;
+    function onResults(results: LandmarkFrame) {
+        events.emit('frame', results);
+        processFrame(results);
     }
 
-    function detectGesture(landmarks: NormalizedLandmark[]): { gesture: GestureType; pinchDist: number } {
-        const wrist = landmarks[0];
-        const thumbTip = landmarks[4];
-        const thumbIp = landmarks[3];
-        const indexTip = landmarks[8];
-        const middleMcp = landmarks[9];
-
-        // Hand size: distance from wrist to middle finger base (for normalization)
-        const handSize = Math.hypot(wrist.x - middleMcp.x, wrist.y - middleMcp.y);
-        if (handSize < 0.01) return { gesture: 'none', pinchDist: 1 }; // hand too small/not detected
-
-        // Check each finger
-        const indexUp = isFingerExtended(landmarks, 8, 6);
-        const middleUp = isFingerExtended(landmarks, 12, 10);
-        const ringUp = isFingerExtended(landmarks, 16, 14);
-        const pinkyUp = isFingerExtended(landmarks, 20, 18);
-
-        // Thumb: compare x-distance from wrist
-        const thumbUp = Math.abs(thumbTip.x - wrist.x) > Math.abs(thumbIp.x - wrist.x);
-
-        const fingersUp = [indexUp, middleUp, ringUp, pinkyUp].filter(Boolean).length;
-
-        // Pinch distance normalized by hand size (0 = touching, ~1 = far apart)
-        const rawPinchDist = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
-        const normalizedPinch = rawPinchDist / handSize;
-
-        // ✊ FIST: ALL 4 fingers curled (thumb position doesn't matter — 
-        // thumb wraps around fingers in a fist, so thumbUp is unreliable)
-        const allFingersCurled = !indexUp && !middleUp && !ringUp && !pinkyUp;
-        if (allFingersCurled) {
-            return { gesture: 'fist', pinchDist: normalizedPinch };
-        }
+    function processFrame(results: LandmarkFrame) {
+        const now = performance.now();
 
-        // 🤏 PINCH: thumb and index close (fist already ruled out above,
-        // so at least one finger is extended — this is a deliberate pinch)
-        if (normalizedPinch < 0.5) {
-            return { gesture: 'pinch', pinchDist: normalizedPinch };
-        }
+        overlayCanvas.width = overlayCanvas.clientWidth;
+        overlayCanvas.height = overlayCanvas.clientHeight;
+        ctx.clearRect(0, 0, overlayCanvas.width, overlayCanvas.height);
+
+        const allLandmarks = results.multiHandLandmarks ?? [];
 
-        // ✋ OPEN: 3+ fingers extended
-        if (fingersUp >= 3) {
-            return { gesture: 'open', pinchDist: normalizedPinch };
+        // Draw ALL detected hands
+        for (const handLandmarks of allLandmarks) {
+            drawHandVisualization(ctx, handLandmarks, overlayCanvas.width, overlayCanvas.height);
         }
 
-        return { gesture: 'none', pinchDist: normalizedPinch };
+        // Match detections to known hands so ids survive MediaPipe reordering them
+        const palms = allLandmarks.map(getPalmCenter);
+        const { hands: identified, lost } = identities.assign(
+            palms.map((palmCenter, i) => ({ palmCenter, handedness: results.multiHandedness?.[i] })),
+            now
+        );
+        releaseHands(lost, now);
+
+        const motionEvents: MotionGestureEvent[] = [];
+        state.hands = identified.map((hand) => {
+            const landmarks = allLandmarks[hand.detectionIndex];
+            const machine = machineFor(hand.id);
+            const detected = gestures.classify(landmarks, machine.getGesture());
+            machine.update(detected.gesture, now);
+
+            const motionEvent = motion.update(hand.id, palms[hand.detectionIndex], landmarks[8], now);
+            if (motionEvent) motionEvents.push(motionEvent);
+
+            return {
+                id: hand.id,
+                handedness: hand.handedness,
+                handednessScore: hand.handednessScore,
+                gesture: machine.getGesture(),
+                gestureConfidence: machine.getConfidence(),
+                palmCenter: palms[hand.detectionIndex],
+                landmarks,
+                pinchDistance: detected.pinchDist,
+            };
+        });
+        state.handCount = state.hands.length;
+
+        const primary = state.hands[0];
+        state.gesture = primary?.gesture ?? 'none';
+        state.palmCenter = primary?.palmCenter ?? null;
+        state.landmarks = primary?.landmarks ?? null;
+        state.pinchDistance = primary?.pinchDistance ?? 1;
+        state.gestureConfidence = primary?.gestureConfidence ?? 0;
+
+        // Emitted after the state update so listeners see the hand's current gesture
+        for (const hand of state.hands) {
+            const entered = !present.has(hand.id);
+            present.set(hand.id, hand);
+            if (entered) events.emit('handEnter', hand);
+        }
+        motionEvents.forEach((e) => events.emit('motionGesture', e));
     }
 
     function drawHandVisualization(
@@ -229,45 +333,70 @@ export function createHandTracker(
 
     async function start() {
         try {
-            onStatusChange('loading', 'Loading hand tracking model...');
-
-            const stream = await navigator.mediaDevices.getUserMedia({
-                video: {
-                    width: { ideal: 640 },
-                    height: { ideal: 480 },
-                    facingMode: 'user',
-                },
-            });
-
-            videoElement.srcObject = stream;
-            await videoElement.play();
+            setStatus('loading', source.kind === 'replay'
+                ? 'Loading landmark replay...'
+                : 'Loading hand tracking model...');
+
+            // Replays feed landmarks directly and never need the model
+            if (source.kind !== 'replay' && !modelAsset) {
+                modelAsset = await resolveMediaPipeHands();
+                if (modelAsset.origin === 'missing') {
+                    modelAsset = null; // probe again on the next start
+                    setStatus('error', 'Hand tracking model unavailable – use mouse, touch or keyboard');
+                    return;
+                }
+            }
 
-            mediaCamera = new Camera(videoElement, {
-                onFrame: async () => {
+            await source.start({
+                video: videoElement,
+                sendImage: async () => {
                     await hands.send({ image: videoElement });
                 },
-                width: 640,
-                height: 480,
+                sendFrame: onResults,
             });
 
-            await mediaCamera.start();
-            onStatusChange('active', 'Hand tracking active');
+            setStatus('active', source.label);
         } catch (err) {
             console.error('Hand tracking error:', err);
-            onStatusChange('error', 'Camera access denied');
+            setStatus('error', source.errorMessage);
         }
     }
 
+    async function setSource(next: InputSource) {
+        source.stop();
+        releaseHands(identities.reset(), performance.now());
+        // Clear hands and overlay without emitting 'frame', so recordings don't get a fake empty frame
+        processFrame({ multiHandLandmarks: [], multiHandedness: [] });
+        source = next;
+        await start();
+    }
+
     function dispose() {
-        mediaCamera?.stop();
+        source.stop();
         hands.close();
-        const stream = videoElement.srcObject as MediaStream;
-        stream?.getTracks().forEach((t) => t.stop());
+        events.clear();
     }
 
     return {
+        events,
         start,
+        setSource,
+        getSource: () => source,
+        onFrame: (listener) => events.on('frame', listener),
+        onGestureStart: (listener) => events.on('gestureStart', listener),
+        onGestureHold: (listener) => events.on('gestureHold', listener),
+        onGestureEnd: (listener) => events.on('gestureEnd', listener),
+        onMotionGesture: (listener) => events.on('motionGesture', listener),
         getState: () => state,
+
+        setSettings(next) {
+            settings = { ...settings, ...next };
+            applyHandsOptions();
+        },
+
+        getSettings: () => settings,
+
+        getModelAsset: () => modelAsset,
         dispose,
     };
 }
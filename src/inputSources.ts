@@ -0,0 +1,193 @@
+/**
+ * Input Sources – Where hand frames come from
+ * A source either feeds video frames to MediaPipe (webcam, video file)
+ * or emits already-detected landmarks directly (replay)
+ */
+
+import type { Handedness, NormalizedLandmark } from '@mediapipe/hands';
+import { Camera } from '@mediapipe/camera_utils';
+
+export type InputSourceKind = 'webcam' | 'video' | 'replay';
+
+/**
+ * The subset of MediaPipe `Results` the tracker consumes.
+ * Live detection and landmark replay both produce this shape.
+ */
+export interface LandmarkFrame {
+    multiHandLandmarks: NormalizedLandmark[][];
+    multiHandedness: Handedness[];
+}
+
+/** A landmark frame stamped with its time (ms) since the start of a session */
+export interface TimedLandmarkFrame extends LandmarkFrame {
+    t: number;
+}
+
+export interface InputSourceContext {
+    /** Video element shown as the page background */
+    video: HTMLVideoElement;
+    /** Run MediaPipe detection on the current video frame */
+    sendImage: () => Promise<void>;
+    /** Bypass detection and hand landmarks straight to the tracker */
+    sendFrame: (frame: LandmarkFrame) => void;
+}
+
+export interface InputSource {
+    kind: InputSourceKind;
+    /** Status text shown once the source is running */
+    label: string;
+    /** Status text shown when the source fails to start */
+    errorMessage: string;
+    start: (ctx: InputSourceContext) => Promise<void>;
+    stop: () => void;
+}
+
+// ========== Webcam ==========
+
+export function createWebcamSource(width = 640, height = 480): InputSource {
+    let mediaCamera: Camera | null = null;
+    let video: HTMLVideoElement | null = null;
+
+    return {
+        kind: 'webcam',
+        label: 'Hand tracking active',
+        errorMessage: 'Camera access denied – use mouse, touch or keyboard',
+
+        async start(ctx) {
+            video = ctx.video;
+
+            const stream = await navigator.mediaDevices.getUserMedia({
+                video: {
+                    width: { ideal: width },
+                    height: { ideal: height },
+                    facingMode: 'user',
+                },
+            });
+
+            video.srcObject = stream;
+            await video.play();
+
+            mediaCamera = new Camera(video, {
+                onFrame: ctx.sendImage,
+                width,
+                height,
+            });
+
+            await mediaCamera.start();
+        },
+
+        stop() {
+            mediaCamera?.stop();
+            mediaCamera = null;
+            const stream = video?.srcObject as MediaStream | null;
+            stream?.getTracks().forEach((t) => t.stop());
+            if (video) video.srcObject = null;
+            video = null;
+        },
+    };
+}
+
+// ========== Video File ==========
+
+/**
+ * Play a local file or URL into the background video and run detection
+ * on every animation frame. Loops by default so a short clip can drive a demo.
+ */
+export function createVideoFileSource(file: File | string, loop = true): InputSource {
+    let video: HTMLVideoElement | null = null;
+    let objectUrl: string | null = null;
+    let run = 0; // bumped by every start/stop, so a stale pump loop ends itself
+
+    return {
+        kind: 'video',
+        label: `Tracking video: ${typeof file === 'string' ? file : file.name}`,
+        errorMessage: 'Could not play video file',
+
+        async start(ctx) {
+            const current = ++run;
+            video = ctx.video;
+            if (typeof file !== 'string') objectUrl = URL.createObjectURL(file);
+
+            video.srcObject = null;
+            video.src = objectUrl ?? (file as string);
+            video.loop = loop;
+            video.muted = true;
+            await video.play();
+            if (current !== run) return;
+
+            const v = video;
+            const pump = async () => {
+                if (current !== run) return;
+                // Skip frames while paused/ended so MediaPipe isn't fed the same image
+                if (!v.paused && !v.ended && v.readyState >= 2) {
+                    await ctx.sendImage();
+                }
+                if (current === run) requestAnimationFrame(pump);
+            };
+            requestAnimationFrame(pump);
+        },
+
+        stop() {
+            run++;
+            if (video) {
+                video.pause();
+                video.removeAttribute('src');
+                video.load();
+            }
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+            objectUrl = null;
+            video = null;
+        },
+    };
+}
+
+// ========== Landmark Replay ==========
+
+/**
+ * Emit pre-recorded landmark frames with their original timing.
+ * No camera or detection model is involved.
+ */
+export function createLandmarkReplaySource(
+    frames: TimedLandmarkFrame[],
+    loop = true,
+    label = 'Replaying landmarks'
+): InputSource {
+    let run = 0; // bumped by every start/stop, so a stale tick loop ends itself
+
+    return {
+        kind: 'replay',
+        label,
+        errorMessage: 'Could not replay landmarks',
+
+        async start(ctx) {
+            if (frames.length === 0) throw new Error('Replay has no frames');
+
+            const current = ++run;
+            const t0 = frames[0].t;
+            let startTime = performance.now();
+            let next = 0;
+
+            const tick = (now: number) => {
+                if (current !== run) return;
+
+                const elapsed = now - startTime;
+                while (next < frames.length && frames[next].t - t0 <= elapsed) {
+                    ctx.sendFrame(frames[next]);
+                    next++;
+                }
+
+                if (next >= frames.length) {
+                    if (!loop) return;
+                    startTime = now;
+                    next = 0;
+                }
+                requestAnimationFrame(tick);
+            };
+            requestAnimationFrame(tick);
+        },
+
+        stop() {
+            run++;
+        },
+    };
+}
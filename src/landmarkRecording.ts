@@ -0,0 +1,101 @@
+/**
+ * Landmark Recording – Capture and replay hand tracking sessions
+ * Sessions are saved as versioned JSON so gesture bugs can be reproduced
+ * and kept as regression fixtures without a camera
+ */
+
+import type { LandmarkFrame, TimedLandmarkFrame } from './inputSources';
+import { downloadBlob } from './dom';
+
+export const LANDMARK_RECORDING_VERSION = 1;
+
+export interface LandmarkRecording {
+    version: typeof LANDMARK_RECORDING_VERSION;
+    createdAt: string; // ISO timestamp of when recording started
+    frames: TimedLandmarkFrame[]; // t = ms since recording started
+}
+
+export interface LandmarkRecorder {
+    start: () => void;
+    stop: () => LandmarkRecording;
+    isRecording: () => boolean;
+    capture: (frame: LandmarkFrame) => void;
+}
+
+export function createLandmarkRecorder(): LandmarkRecorder {
+    let recording = false;
+    let startTime = 0;
+    let createdAt = '';
+    let frames: TimedLandmarkFrame[] = [];
+
+    return {
+        start() {
+            recording = true;
+            startTime = performance.now();
+            createdAt = new Date().toISOString();
+            frames = [];
+        },
+
+        stop() {
+            recording = false;
+            return { version: LANDMARK_RECORDING_VERSION, createdAt, frames };
+        },
+
+        isRecording: () => recording,
+
+        capture(frame: LandmarkFrame) {
+            if (!recording) return;
+
+            // Copy only what the tracker reads – MediaPipe reuses and decorates its objects
+            frames.push({
+                t: Math.round(performance.now() - startTime),
+                multiHandLandmarks: (frame.multiHandLandmarks ?? []).map((hand) =>
+                    hand.map(({ x, y, z }) => ({ x, y, z }))
+                ),
+                multiHandedness: (frame.multiHandedness ?? []).map(({ index, score, label }) => ({
+                    index,
+                    score,
+                    label,
+                })),
+            });
+        },
+    };
+}
+
+export function serializeRecording(recording: LandmarkRecording): string {
+    return JSON.stringify(recording);
+}
+
+/**
+ * Parse and validate a recording. Throws with a readable message
+ * when the file is not a recording or uses an unsupported version.
+ */
+export function parseRecording(json: string): LandmarkRecording {
+    const data = JSON.parse(json);
+
+    if (!data || typeof data !== 'object' || !Array.isArray(data.frames)) {
+        throw new Error('Not a landmark recording: missing "frames"');
+    }
+    if (data.version !== LANDMARK_RECORDING_VERSION) {
+        throw new Error(
+            `Unsupported landmark recording version ${data.version} (expected ${LANDMARK_RECORDING_VERSION})`
+        );
+    }
+
+    data.frames.forEach((frame: TimedLandmarkFrame, i: number) => {
+        if (typeof frame.t !== 'number' || !Array.isArray(frame.multiHandLandmarks)) {
+            throw new Error(`Malformed frame at index ${i}`);
+        }
+        frame.multiHandedness ??= [];
+    });
+
+    return data as LandmarkRecording;
+}
+
+/**
+ * Save a recording through a temporary download link
+ */
+export function downloadRecording(recording: LandmarkRecording, filename?: string) {
+    const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+    downloadBlob(blob, filename ?? `landmarks-${recording.createdAt.replace(/[:.]/g, '-')}.json`);
+}
@@ -0,0 +1,28 @@
+/**
+ * Library Entry – The globe for embedding in other pages
+ * Importing this registers <hand-globe>. The factories are exported too,
+ * for pages that mount the globe themselves or add layers to it.
+ */
+
+import { defineHandGlobe } from './handGlobe';
+
+export { createHandGlobe, defineHandGlobe, HandGlobeElement, DEFAULT_HAND_GLOBE_OPTIONS } from './handGlobe';
+export type { HandGlobe, HandGlobeOptions, LiveHandGlobeOptions } from './handGlobe';
+export { createGlobeScene } from './globe';
+export type { GlobeControls, GlobeEvents, GlobeScene, GlobeSceneOptions, GlobeView } from './globe';
+export type { HandTracker, HandTrackerEvents, TrackedHand, TrackingStatus } from './handTracking';
+export type { EventSource } from './events';
+export { getBody, listBodies, registerBody } from './bodies';
+export type { CelestialBody } from './bodies';
+export { createMarkerLayer } from './markers';
+export { createArcLayer } from './arcs';
+export { createCountryLayer, DEFAULT_COUNTRIES_URL } from './countries';
+export { createDataLayer } from './dataLayer';
+export { createPointSelection } from './pointSelection';
+export { createHandParticles, DEFAULT_PARTICLE_PRESETS } from './handParticles';
+export type { EmitterPreset, HandParticleOptions, HandParticles } from './handParticles';
+export { createTourPlayer, loadTour, parseTour } from './tours';
+export type { Tour, TourPlayer, TourPlayerEvents, TourStop } from './tours';
+export { latLonToVector3, vector3ToLatLon } from './geo';
+
+defineHandGlobe();
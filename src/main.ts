@@ -4,8 +4,53 @@
  */
 
 import './style.css';
-import { createGlobeScene, GlobeControls } from './globe';
-import { createHandTracker, HandTracker } from './handTracking';
+import { createGlobeScene, GlobeControls, GlobeScene } from './globe';
+import { createHandTracker, HandTracker, NO_HANDS } from './handTracking';
+import {
+  createLandmarkReplaySource,
+  createVideoFileSource,
+  createWebcamSource,
+  InputSource,
+} from './inputSources';
+import { createLandmarkRecorder, downloadRecording, parseRecording } from './landmarkRecording';
+import {
+  BindingAction,
+  BindingEngine,
+  createBindingEngine,
+  loadBindingProfile,
+  parseBindingProfile,
+} from './gestureBindings';
+import { createPointerControls, isEditableTarget, PointerControls } from './pointerControls';
+import { createMarkerLayer, GeoJSONFeatureCollection, MarkerLayer } from './markers';
+import { createPointSelection, PointSelection } from './pointSelection';
+import { CountryLayer, createCountryLayer, DEFAULT_COUNTRIES_URL } from './countries';
+import { ArcLayer, createArcLayer } from './arcs';
+import { createDataLayer, DataLayer } from './dataLayer';
+import type { ScaleType } from './colorScale';
+import { AssetRecord, describeAssets } from './assets';
+import type { CelestialBody } from './bodies';
+import { createHandParticles, HandParticles } from './handParticles';
+import { createGestureRegistry } from './gestures';
+import {
+  CalibrationWizard,
+  createCalibrationWizard,
+  getActiveCalibration,
+  getCalibrationProfile,
+  listCalibrationProfiles,
+  setActiveCalibration,
+} from './calibration';
+import { createTourPlayer, loadTour, parseTour, TourPlayer } from './tours';
+import {
+  AppSettings,
+  createSettingsPanel,
+  DEFAULT_SETTINGS,
+  loadStoredSettings,
+  parseSettings,
+  settingsFromUrl,
+  storeSettings,
+  toGestureThresholds,
+  toTrackingSettings,
+} from './settings';
 
 // ========== DOM Elements ==========
 const canvas = document.getElementById('globe-canvas') as HTMLCanvasElement;
@@ -17,19 +62,39 @@ const statusDot = document.getElementById('status-dot')!;
 const statusText = document.getElementById('status-text')!;
 const webcamVideo = document.getElementById('webcam-video') as HTMLVideoElement;
 const handOverlayCanvas = document.getElementById('hand-overlay-canvas') as HTMLCanvasElement;
+const markerLabels = document.getElementById('marker-labels')!;
+const pickReadout = document.getElementById('pick-readout')!;
+const dataLegend = document.getElementById('data-legend')!;
+const bodySwitcher = document.getElementById('body-switcher')!;
+const bodyIcon = document.getElementById('body-icon')!;
+const bodyName = document.getElementById('body-name')!;
+const calibrationSelect = document.getElementById('calibration-select') as HTMLSelectElement;
+const calibrateButton = document.getElementById('calibrate-button') as HTMLButtonElement;
+const calibrationPanel = document.getElementById('calibration-wizard')!;
+const settingsButton = document.getElementById('settings-button')!;
+const settingsPanelElement = document.getElementById('settings-panel')!;
+const tourCaption = document.getElementById('tour-caption')!;
 
 // ========== State ==========
 let globeControls: GlobeControls | null = null;
 let handTracker: HandTracker | null = null;
-let prevPalmX: number | null = null;
-let prevPalmY: number | null = null;
-let isGestureActive = false;
-
-// Smoothed deltas
-let smoothRotX = 0;
-let smoothRotY = 0;
-let prevPinchDist: number | null = null;
-let prevGesture: string = 'none';
+let bindings: BindingEngine | null = null;
+let pointerControls: PointerControls | null = null;
+let markers: MarkerLayer | null = null;
+let selection: PointSelection | null = null;
+let particles: HandParticles | null = null;
+let countries: CountryLayer | null = null;
+let arcs: ArcLayer | null = null;
+let dataLayer: DataLayer | null = null;
+let trackingError: string | null = null;
+let trackingStarted = false;
+let calibration: CalibrationWizard | null = null;
+let tour: TourPlayer | null = null;
+
+const recorder = createLandmarkRecorder();
+const gestures = createGestureRegistry();
+// URL parameters override the stored settings for this visit
+let settings: AppSettings = { ...DEFAULT_SETTINGS, ...loadStoredSettings(), ...settingsFromUrl() };
 
 function showGlobe() {
   loadingScreen.classList.add('hidden');
@@ -38,7 +103,7 @@ function showGlobe() {
 
 // ========== Initialize Globe ==========
 function initGlobe() {
-  const { controls } = createGlobeScene(canvas, (progress) => {
+  const globe = createGlobeScene(canvas, (progress) => {
     const pct = Math.min(progress, 100);
     loaderProgress.style.width = `${pct}%`;
 
@@ -47,37 +112,415 @@ function initGlobe() {
     else if (pct < 100) loaderSubtitle.textContent = 'Loading cloud layers...';
 
     if (progress >= 100) {
-      loaderSubtitle.textContent = 'Ready!';
+      const offline = globe.getAssetReport().some((a) => a.origin === 'generated' || a.origin === 'missing');
+      loaderSubtitle.textContent = offline ? 'Ready! (some textures unavailable – using fallbacks)' : 'Ready!';
+      reportAssets(globe.getAssetReport());
       setTimeout(() => {
         showGlobe();
-        initHandTracking(controls);
+        initHandTracking(globe.controls);
+        loadTourFromUrl();
       }, 600);
     }
   });
 
-  globeControls = controls;
+  globeControls = globe.controls;
+  globe.controls.setZoomRange(settings.minZoom, settings.maxZoom);
+  globe.controls.setMoveSpeed(settings.moveSpeed);
+  applyTimeFromUrl(globe.controls);
+  applyBodyFromUrl(globe.controls);
+  globe.onBodyChange(showBody);
+  bodySwitcher.addEventListener('click', () => globe.controls.cycleBody());
+  pointerControls = createPointerControls(canvas, globe.controls);
+  markers = createMarkerLayer(globe, markerLabels);
+  loadMarkersFromUrl();
+  countries = createCountryLayer(globe);
+  dataLayer = createDataLayer(globe, countries, dataLegend);
+  loadCountries().then(loadDataFromUrl); // choropleths need the country shapes first
+  arcs = createArcLayer(globe);
+  loadArcsFromUrl();
+  particles = createParticlesFromUrl(globe);
+  tour = createTourPlayer(globe.controls, tourCaption, {
+    layers: { countries, arcs, markers, data: dataLayer },
+    countries,
+  });
+
+  // Pointing with the index finger picks places; holding still selects
+  selection = createPointSelection(globe, pickReadout);
+  selection.addResolver(markers.pickResolver);
+  selection.addResolver(countries.pickResolver);
+  selection.onHover((pick) => {
+    // A playing tour owns the highlight (hands in view would otherwise clear it every frame)
+    if (tour?.isActive() && !tour.isPaused()) return;
+    countries?.setHighlight(pick?.targets.find((t) => t.layer === 'countries')?.id ?? null);
+  });
+  selection.onSelect((e) => {
+    if (e.targets.some((t) => t.layer === 'countries')) countries?.selectAt(e.lat, e.lon);
+    pickReadout.classList.remove('selected');
+    void pickReadout.offsetWidth; // restart the flash animation
+    pickReadout.classList.add('selected');
+  });
+
+  initMouseHover();
+}
+
+// ?countries=<url> swaps the bundled borders for another TopoJSON or GeoJSON file
+async function loadCountries() {
+  const url = new URLSearchParams(window.location.search).get('countries') ?? DEFAULT_COUNTRIES_URL;
+
+  try {
+    const data = await (await fetch(url)).json();
+    if (data.type === 'Topology') countries?.loadTopoJSON(data);
+    else countries?.loadGeoJSON(data);
+  } catch (err) {
+    console.error('Could not load country borders:', err);
+  }
+}
+
+// ?data=<url> loads a CSV heatmap or choropleth; &scale=linear|log|quantile picks the color scale
+async function loadDataFromUrl() {
+  const params = new URLSearchParams(window.location.search);
+  const dataUrl = params.get('data');
+  if (!dataUrl || !dataLayer) return;
+
+  try {
+    const scale = (params.get('scale') ?? undefined) as ScaleType | undefined;
+    const { unmatched } = dataLayer.loadCSV(await (await fetch(dataUrl)).text(), scale ? { scale } : {});
+    if (unmatched.length > 0) console.warn('No country found for:', unmatched.join(', '));
+  } catch (err) {
+    console.error('Could not load data layer:', err);
+  }
+}
+
+// Mouse hover highlights the country under the cursor; a click (not a drag) selects it
+function initMouseHover() {
+  let downAt: { x: number; y: number } | null = null;
+
+  function pickEvent(e: PointerEvent) {
+    const rect = canvas.getBoundingClientRect();
+    return selection?.pickAt(
+      ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      -((e.clientY - rect.top) / rect.height) * 2 + 1
+    );
+  }
+
+  canvas.addEventListener('pointermove', (e) => {
+    if (e.pointerType !== 'mouse' || e.buttons !== 0 || !countries) return;
+    const pick = pickEvent(e);
+    const country = pick ? countries.countryAt(pick.lat, pick.lon) : null;
+    // A playing tour owns the highlight; the tooltip still follows the mouse
+    const touring = tour?.isActive() && !tour.isPaused();
+    if (!touring) countries.setHighlight(country?.id ?? null);
+    canvas.title = country?.name ?? '';
+  });
+
+  canvas.addEventListener('pointerdown', (e) => {
+    downAt = { x: e.clientX, y: e.clientY };
+  });
+
+  canvas.addEventListener('pointerup', (e) => {
+    if (!downAt || Math.hypot(e.clientX - downAt.x, e.clientY - downAt.y) > 5) return;
+    const pick = pickEvent(e);
+    if (pick) countries?.selectAt(pick.lat, pick.lon);
+    downAt = null;
+  });
+}
+
+// ?markers=<url> loads a GeoJSON FeatureCollection of Points as pins
+async function loadMarkersFromUrl() {
+  const markersUrl = new URLSearchParams(window.location.search).get('markers');
+  if (!markersUrl || !markers) return;
+
+  try {
+    const res = await fetch(markersUrl);
+    markers.loadGeoJSON((await res.json()) as GeoJSONFeatureCollection);
+  } catch (err) {
+    console.error('Could not load markers:', err);
+  }
+}
+
+// ?tour=<url> plays a scripted tour once the globe is up
+async function loadTourFromUrl() {
+  const tourUrl = new URLSearchParams(window.location.search).get('tour');
+  if (!tourUrl || !tour) return;
+
+  try {
+    tour.play(await loadTour(tourUrl));
+  } catch (err) {
+    console.error('Could not load tour:', err);
+  }
+}
+
+// ?time=<ISO date> sets the day/night clock; ?timeSpeed=<n> runs it n× real time (0 pauses)
+function applyTimeFromUrl(controls: GlobeControls) {
+  const params = new URLSearchParams(window.location.search);
+  const time = params.get('time');
+  const speed = params.get('timeSpeed');
+
+  if (time && !Number.isNaN(Date.parse(time))) controls.setTime(Date.parse(time));
+  if (speed && Number.isFinite(Number(speed))) controls.setTimeSpeed(Number(speed));
+}
+
+// ?body=<id> starts on another celestial body (moon, mars, venus, jupiter – see bodies.ts)
+function applyBodyFromUrl(controls: GlobeControls) {
+  const body = new URLSearchParams(window.location.search).get('body');
+  if (body) controls.setBody(body).catch((err) => console.error('Could not switch body:', err));
+}
+
+// Country borders and data layers describe the Earth, so they only show there
+function showBody(body: CelestialBody) {
+  bodyIcon.textContent = body.icon;
+  bodyName.textContent = body.name;
+  const onEarth = body.id === 'earth';
+  countries?.setVisible(onEarth);
+  dataLayer?.setVisible(onEarth);
 }
 
+// Log which assets were bundled, fetched remotely, generated or missing
+function reportAssets(records: AssetRecord[]) {
+  const fallback = records.some((r) => r.origin !== 'local');
+  (fallback ? console.warn : console.info)(`Assets:\n${describeAssets(records)}`);
+}
+
+// ========== Calibration ==========
+// ?calibration=<name> picks a saved profile; otherwise the one chosen last time is used
+function applyCalibrationFromUrl() {
+  const name = new URLSearchParams(window.location.search).get('calibration');
+  if (name !== null) {
+    if (getCalibrationProfile(name)) setActiveCalibration(name);
+    else console.warn(`No calibration profile named "${name}" – using the last active one`);
+  }
+  applyCalibration();
+}
+
+// Apply the active profile and list every saved one in the HUD picker
+function applyCalibration() {
+  const active = getActiveCalibration();
+  gestures.setThresholds(active?.thresholds ?? toGestureThresholds(settings));
+  settingsPanel.lock('pinchThreshold', active ? `Set by calibration profile "${active.name}"` : null);
+
+  const options = [new Option('Default gestures', '')];
+  for (const profile of listCalibrationProfiles()) options.push(new Option(`🎯 ${profile.name}`, profile.name));
+  calibrationSelect.replaceChildren(...options);
+  calibrationSelect.value = active?.name ?? '';
+}
+
+calibrationSelect.addEventListener('change', () => {
+  setActiveCalibration(calibrationSelect.value || null);
+  applyCalibration();
+});
+calibrateButton.addEventListener('click', () => calibration?.start());
+
+// ========== Settings ==========
+const settingsPanel = createSettingsPanel(settingsPanelElement, settings, {
+  // A slider edit saves just that field, so this visit's URL overrides stay out of storage
+  onChange: (next, field) => applySettings(next, field ? { ...loadStoredSettings(), [field]: next[field] } : next),
+  onError: (err) => {
+    console.error('Could not import settings:', err);
+    statusText.textContent = `Invalid settings file: ${err.message}`;
+  },
+});
+settingsButton.addEventListener('click', () => settingsPanel.toggle());
+
+// Push settings to whatever exists yet; the rest picks them up when created.
+// `stored` is what gets saved (null saves nothing)
+function applySettings(next: AppSettings, stored: Partial<AppSettings> | null = next) {
+  settings = next;
+  if (stored) storeSettings(stored);
+  settingsPanel.set(settings);
+  handTracker?.setSettings(toTrackingSettings(settings));
+  globeControls?.setZoomRange(settings.minZoom, settings.maxZoom);
+  globeControls?.setMoveSpeed(settings.moveSpeed);
+  bindings?.setGain('rotate', settings.rotateSpeed);
+  bindings?.setGain('zoom', settings.zoomSpeed);
+  applyCalibration(); // the pinch threshold is the baseline without a profile
+}
+
+// ========== Hand Particles ==========
+// ?particles=<n> sets the particle budget; 0 turns the effects off
+function createParticlesFromUrl(globe: GlobeScene): HandParticles | null {
+  const budget = new URLSearchParams(window.location.search).get('particles');
+  const maxParticles = budget ? Number(budget) : NaN;
+  if (!Number.isFinite(maxParticles)) return createHandParticles(globe);
+  return maxParticles > 0 ? createHandParticles(globe, { maxParticles }) : null;
+}
+
+// ========== Input Source ==========
+// ?video=<url> tracks a clip instead of the webcam (for machines without a camera)
+// ?replay=<url> replays a landmark recording saved with the R key
+async function pickInputSource(): Promise<InputSource> {
+  const params = new URLSearchParams(window.location.search);
+
+  const replayUrl = params.get('replay');
+  if (replayUrl) {
+    try {
+      const res = await fetch(replayUrl);
+      const recording = parseRecording(await res.text());
+      return createLandmarkReplaySource(recording.frames, true, `Replaying ${replayUrl}`);
+    } catch (err) {
+      console.error('Could not load landmark replay:', err);
+    }
+  }
+
+  const videoUrl = params.get('video');
+  if (videoUrl) return createVideoFileSource(videoUrl);
+  return createWebcamSource();
+}
+
+// ?profile=<url> loads a gesture binding profile for this exhibit
+async function loadProfileFromUrl(engine: BindingEngine) {
+  const profileUrl = new URLSearchParams(window.location.search).get('profile');
+  if (!profileUrl) return;
+
+  try {
+    engine.setProfile(await loadBindingProfile(profileUrl, gestures));
+  } catch (err) {
+    console.error('Could not load binding profile:', err);
+  }
+}
+
+// ?arcs=<url> loads origin/destination pairs (JSON or CSV) as great-circle arcs
+async function loadArcsFromUrl() {
+  const arcsUrl = new URLSearchParams(window.location.search).get('arcs');
+  if (!arcsUrl || !arcs) return;
+
+  try {
+    const text = await (await fetch(arcsUrl)).text();
+    if (arcsUrl.endsWith('.csv')) arcs.loadCSV(text);
+    else arcs.loadJSON(JSON.parse(text));
+  } catch (err) {
+    console.error('Could not load arcs:', err);
+  }
+}
+
+// Dropping a video file, landmark recording, binding profile, settings file, tour, GeoJSON, arcs or CSV data onto the page applies it
+window.addEventListener('dragover', (e) => e.preventDefault());
+window.addEventListener('drop', async (e) => {
+  e.preventDefault();
+  const file = e.dataTransfer?.files[0];
+  if (!file) return;
+
+  try {
+    if (file.type.startsWith('video/')) {
+      handTracker?.setSource(createVideoFileSource(file));
+    } else if (file.name.endsWith('.csv')) {
+      // Origin/destination columns make arcs; anything else is heatmap or choropleth data
+      const text = await file.text();
+      if (!arcs?.loadCSV(text)) {
+        const unmatched = dataLayer?.loadCSV(text).unmatched ?? [];
+        if (unmatched.length > 0) console.warn('No country found for:', unmatched.join(', '));
+      }
+    } else if (file.name.endsWith('.json') || file.name.endsWith('.geojson')) {
+      const text = await file.text();
+      const data = JSON.parse(text);
+      if (data.type === 'FeatureCollection') {
+        markers?.loadGeoJSON(data as GeoJSONFeatureCollection);
+      } else if (Array.isArray(data) || 'arcs' in data) {
+        arcs?.loadJSON(data);
+      } else if ('bindings' in data) {
+        bindings?.setProfile(parseBindingProfile(text, gestures));
+      } else if ('settings' in data) {
+        applySettings(parseSettings(text));
+      } else if ('stops' in data) {
+        tour?.play(parseTour(text));
+      } else {
+        const recording = parseRecording(text);
+        handTracker?.setSource(createLandmarkReplaySource(recording.frames, true, `Replaying ${file.name}`));
+      }
+    }
+  } catch (err) {
+    console.error(`Could not load ${file.name}:`, err);
+    statusText.textContent = `Invalid file: ${file.name}`;
+    statusDot.className = 'status-dot error';
+  }
+});
+
+// R toggles landmark recording; stopping downloads the session as JSON
+window.addEventListener('keydown', (e) => {
+  if (e.key !== 'r' && e.key !== 'R') return;
+  if (isEditableTarget(e.target)) return;
+
+  if (recorder.isRecording()) {
+    downloadRecording(recorder.stop());
+  } else {
+    recorder.start();
+  }
+});
+
+// Presentation clickers send PageDown / PageUp; Space pauses and Escape ends the tour
+window.addEventListener('keydown', (e) => {
+  if (!tour?.isActive()) return;
+  if (isEditableTarget(e.target)) return;
+
+  switch (e.key) {
+    case 'PageDown':
+      tour.next();
+      break;
+    case 'PageUp':
+      tour.previous();
+      break;
+    case ' ':
+      tour.togglePause();
+      break;
+    case 'Escape':
+      tour.stop();
+      break;
+    default:
+      return;
+  }
+  e.preventDefault();
+});
+
 // ========== Initialize Hand Tracking ==========
 async function initHandTracking(controls: GlobeControls) {
+  bindings = createBindingEngine(controls);
+  bindings.setGain('rotate', settings.rotateSpeed);
+  bindings.setGain('zoom', settings.zoomSpeed);
+  // The loop also hands auto-rotate back after mouse, touch or keyboard input,
+  // so it runs whether or not a camera and the model turn up
+  requestAnimationFrame(gestureControlLoop);
+
   try {
+    await loadProfileFromUrl(bindings);
+
     handTracker = createHandTracker(
       webcamVideo,
       handOverlayCanvas,
       (status, message) => {
         statusText.textContent = message;
         statusDot.className = 'status-dot';
+        trackingError = status === 'error' ? message : null;
 
         if (status === 'active') {
           statusDot.classList.add('active');
         } else if (status === 'error') {
           statusDot.classList.add('error');
         }
-      }
+      },
+      { source: await pickInputSource(), gestures, settings: toTrackingSettings(settings) }
     );
+    handTracker.onFrame(recorder.capture);
+    calibration = createCalibrationWizard(handTracker, calibrationPanel);
+    calibration.onComplete(applyCalibration);
+    calibrateButton.disabled = false;
+    handTracker.onMotionGesture((e) => {
+      if (!handTracker || pointerControls?.isActive()) return;
+      // During a tour a swipe turns the page: left for the next stop, right for the previous one
+      if (tour?.isActive() && e.type === 'swipe') {
+        if (e.direction === 'left') tour.next();
+        else if (e.direction === 'right') tour.previous();
+        return;
+      }
+      bindings?.handleMotion(e, handTracker.getState());
+    });
+    // A fist pauses the tour (and hands the globe over); another one resumes it
+    handTracker.onGestureStart((e) => {
+      if (e.gesture === 'fist' && tour?.isActive()) tour.togglePause();
+    });
 
     await handTracker.start();
-    requestAnimationFrame(gestureControlLoop);
+    trackingStarted = true;
+    const model = handTracker.getModelAsset();
+    if (model) reportAssets([model]);
   } catch (err) {
     console.error('Hand tracking failed:', err);
     statusText.textContent = 'Hand tracking failed';
@@ -86,157 +529,76 @@ async function initHandTracking(controls: GlobeControls) {
 }
 
 // ========== Gesture Control Loop ==========
+const ACTION_LABELS: Record<BindingAction, string> = {
+  rotate: 'Rotating',
+  zoom: 'Zooming',
+  move: 'Grabbing globe',
+  autoRotate: 'Stopped',
+  spin: 'Spinning',
+  resetView: 'Resetting view',
+  scrubTime: 'Scrubbing time',
+  cycleBody: 'Switching body',
+};
+
 function gestureControlLoop() {
-  if (!handTracker || !globeControls) {
+  if (!globeControls || !bindings) {
     requestAnimationFrame(gestureControlLoop);
     return;
   }
 
-  const state = handTracker.getState();
-  const palm = state.palmCenter;
-  const palm2 = state.secondPalmCenter;
-  const bothOpen = state.handCount >= 2 && state.gesture === 'open' && state.secondGesture === 'open';
-
-  // Reset pinch tracking when gesture changes (prevents zoom spike during transitions)
-  if (state.gesture !== prevGesture) {
-    prevPinchDist = null;
-    prevGesture = state.gesture;
-  }
-
-  // ========== TWO HANDS OPEN → GRAB & MOVE GLOBE ==========
-  if (bothOpen && palm && palm2) {
-    globeControls.setAutoRotate(false);
-    prevPinchDist = null;
-
-    // Midpoint between two palms
-    const midX = (palm.x + palm2.x) / 2;
-    const midY = (palm.y + palm2.y) / 2;
-
-    // Move globe by delta (not absolute) — prevents jump on entry
-    if (prevPalmX !== null && prevPalmY !== null) {
-      const dx = midX - prevPalmX;
-      const dy = midY - prevPalmY;
-
-      // Move position
-      if (Math.abs(dx) > 0.002 || Math.abs(dy) > 0.002) {
-        globeControls.movePosition(dx, dy);
-
-        // Also rotate slightly while moving
-        smoothRotY += (-dx * 3 - smoothRotY) * 0.3;
-        smoothRotX += (dy * 3 - smoothRotX) * 0.3;
-        globeControls.rotateY(smoothRotY);
-        globeControls.rotateX(smoothRotX);
-      }
-    }
-    prevPalmX = midX;
-    prevPalmY = midY;
-    isGestureActive = true;
-
-  } else {
-    // ========== SINGLE HAND GESTURES ==========
-
-    switch (state.gesture) {
-      case 'open': {
-        // ✋ OPEN HAND → ROTATE GLOBE
-        globeControls.setAutoRotate(false);
-        prevPinchDist = null;
-
-        if (palm && prevPalmX !== null && prevPalmY !== null) {
-          const dx = palm.x - prevPalmX;
-          const dy = palm.y - prevPalmY;
-
-          if (Math.abs(dx) > 0.002 || Math.abs(dy) > 0.002) {
-            smoothRotY += (-dx * 5 - smoothRotY) * 0.4;
-            smoothRotX += (dy * 5 - smoothRotX) * 0.4;
-            globeControls.rotateY(smoothRotY);
-            globeControls.rotateX(smoothRotX);
-          } else {
-            smoothRotX *= 0.8;
-            smoothRotY *= 0.8;
-          }
-        }
-
-        if (palm) {
-          prevPalmX = palm.x;
-          prevPalmY = palm.y;
-        }
-        isGestureActive = true;
-        break;
-      }
-
-      case 'pinch': {
-        // 🤏 PINCH → ZOOM using pinch distance change
-        globeControls.setAutoRotate(false);
-
-        const currentPinchDist = state.pinchDistance;
-        if (prevPinchDist !== null) {
-          const delta = currentPinchDist - prevPinchDist;
-          const clampedDelta = Math.max(-0.08, Math.min(0.08, delta));
-          if (Math.abs(clampedDelta) > 0.005) {
-            const currentZoom = globeControls.getZoom();
-            globeControls.setZoom(currentZoom - clampedDelta * 15);
-          }
-        }
-        prevPinchDist = currentPinchDist;
-
-        if (palm) {
-          prevPalmX = palm.x;
-          prevPalmY = palm.y;
-        }
-        isGestureActive = true;
-        break;
-      }
-
-      case 'fist': {
-        // ✊ FIST → STOP, AUTO ROTATE
-        globeControls.setAutoRotate(true);
-        smoothRotX = 0;
-        smoothRotY = 0;
-        prevPalmX = null;
-        prevPalmY = null;
-        prevPinchDist = null;
-        isGestureActive = false;
-        break;
-      }
-
-      case 'none':
-      default: {
-        if (isGestureActive) {
-          smoothRotX *= 0.85;
-          smoothRotY *= 0.85;
-          if (Math.abs(smoothRotX) < 0.0001 && Math.abs(smoothRotY) < 0.0001) {
-            globeControls.setAutoRotate(true);
-            isGestureActive = false;
-          }
-        } else {
-          globeControls.setAutoRotate(true);
-        }
-        prevPalmX = null;
-        prevPalmY = null;
-        prevPinchDist = null;
-        break;
-      }
-    }
+  // Without a running tracker the loop still serves manual input, as if no hand were in view
+  const state = handTracker?.getState() ?? NO_HANDS;
+
+  // Priority: mouse, touch and keyboard win over hands while in use (and briefly after),
+  // so a visitor at the screen isn't fought by hands the camera sees in the crowd
+  // Calibration poses must not steer the globe either, nor hands fight a playing tour
+  const manual = pointerControls?.isActive() ?? false;
+  const touring = tour?.isActive() && !tour.isPaused();
+  if (manual || calibration?.isRunning() || touring) bindings.reset();
+  else bindings.update(state);
+  const now = performance.now();
+  selection?.update(manual ? [] : state.hands, now);
+  particles?.update(state.hands, now);
+
+  // Leave loading and failure messages alone until tracking has started
+  if (!trackingStarted) {
+    requestAnimationFrame(gestureControlLoop);
+    return;
   }
 
-  // Show detected gesture on status
+  // Show detected gesture and the action it drives on status
   const pd = state.pinchDistance.toFixed(2);
+  const active = bindings.getActiveBinding();
   let statusLabel: string;
-  if (bothOpen) {
-    statusLabel = `🤲 Two hands – Grabbing globe`;
+  if (active?.gestures && active.gestures.length >= 2) {
+    statusLabel = `🤲 Two hands – ${ACTION_LABELS[active.action]}`;
   } else {
     const gestureLabels: Record<string, string> = {
-      open: `✋ Open hand – Rotating`,
-      pinch: `🤏 Pinch (${pd}) – Zooming`,
-      fist: `✊ Fist – Stopped`,
+      open: `✋ Open hand`,
+      pinch: `🤏 Pinch (${pd})`,
+      fist: `✊ Fist`,
+      point: `☝️ Point`,
+      peace: `✌️ Peace`,
+      thumbsUp: `👍 Thumbs up`,
+      rock: `🤘 Rock`,
+      ok: `👌 OK`,
       none: `Waiting... (${state.handCount} hand${state.handCount !== 1 ? 's' : ''})`,
     };
     statusLabel = gestureLabels[state.gesture] || 'Hand tracking active';
+    if (active) statusLabel += ` – ${ACTION_LABELS[active.action]}`;
+    if (active?.action === 'scrubTime') {
+      statusLabel += ` ${globeControls.getTime().toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+    }
   }
-  statusText.textContent = statusLabel;
+  if (manual) statusLabel = '🖱️ Manual control';
+  else if (calibration?.isRunning()) statusLabel = '🎯 Calibrating';
+  else if (touring) statusLabel = '🎬 Tour – swipe to change stop, fist to pause';
+  else if (trackingError) statusLabel = trackingError; // keep it visible; manual input still works
+  statusText.textContent = recorder.isRecording() ? `⏺ REC · ${statusLabel}` : statusLabel;
 
   requestAnimationFrame(gestureControlLoop);
 }
 
 // ========== Start ==========
+applyCalibrationFromUrl(); // also applies the settings' pinch threshold
 initGlobe();
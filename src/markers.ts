@@ -0,0 +1,289 @@
+/**
+ * Marker Layer – Pins and labels anchored at lat/lon on the globe
+ * Pins are billboards in the globe group so they rotate with the Earth.
+ * Labels are HTML, fade out towards the far hemisphere and hide when
+ * they would overlap a more important label.
+ */
+
+import * as THREE from 'three';
+import type { GlobeScene } from './globe';
+import { latLonToVector3 } from './geo';
+import type { PickResolver } from './pointSelection';
+
+export interface Marker {
+    id: string;
+    lat: number;
+    lon: number;
+    color?: string; // any CSS color
+    size?: number; // relative pin size (1 = default)
+    label?: string;
+    properties?: Record<string, unknown>;
+}
+
+/** Which GeoJSON feature properties feed a marker's color, size and label */
+export interface GeoJSONMarkerMapping {
+    id?: string;
+    label?: string;
+    color?: string;
+    size?: string;
+}
+
+interface GeoJSONPointFeature {
+    type: 'Feature';
+    id?: string | number;
+    geometry: { type: string; coordinates: number[] } | null;
+    properties: Record<string, unknown> | null;
+}
+
+export interface GeoJSONFeatureCollection {
+    type: 'FeatureCollection';
+    features: GeoJSONPointFeature[];
+}
+
+export interface MarkerLayer {
+    add: (marker: Marker) => void;
+    remove: (id: string) => void;
+    clear: () => void;
+    list: () => Marker[];
+    get: (id: string) => Marker | undefined;
+    /** Add every Point feature; returns how many markers were created */
+    loadGeoJSON: (collection: GeoJSONFeatureCollection, mapping?: GeoJSONMarkerMapping) => number;
+    setVisible: (visible: boolean) => void;
+    /** Pin objects (userData.markerId set) for raycasting */
+    getPickables: () => THREE.Object3D[];
+    /** Reports the pin nearest a point selection, if it is within reach */
+    pickResolver: PickResolver;
+    dispose: () => void;
+}
+
+const DEFAULT_MAPPING: Required<GeoJSONMarkerMapping> = {
+    id: 'id',
+    label: 'name',
+    color: 'color',
+    size: 'size',
+};
+
+const DEFAULT_COLOR = '#ffd740';
+const PIN_SCALE = 0.035; // world size of a size-1 pin
+const PIN_ALTITUDE = 0.015; // lift above the surface so pins aren't clipped by the Earth
+// Labels start fading when the surface turns this far from the camera (cosine of the angle)
+const LABEL_FADE_START = 0.35;
+const LABEL_OFFSET_Y = 14; // px above the pin
+
+interface MarkerEntry {
+    marker: Marker;
+    sprite: THREE.Sprite;
+    material: THREE.SpriteMaterial;
+    label: HTMLDivElement | null;
+    labelSize: { w: number; h: number } | null;
+}
+
+function createPinTexture(): THREE.Texture {
+    const size = 64;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+
+    // White dot with a soft glow; tinted per marker through the material color
+    const grad = ctx.createRadialGradient(size / 2, size / 2, 0, size / 2, size / 2, size / 2);
+    grad.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    grad.addColorStop(0.45, 'rgba(255, 255, 255, 1)');
+    grad.addColorStop(0.55, 'rgba(255, 255, 255, 0.5)');
+    grad.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    ctx.fillStyle = grad;
+    ctx.fillRect(0, 0, size, size);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+}
+
+export function createMarkerLayer(globe: GlobeScene, labelContainer: HTMLElement): MarkerLayer {
+    const { globeGroup, camera, renderer } = globe;
+    const group = new THREE.Group();
+    globeGroup.add(group);
+
+    const pinTexture = createPinTexture();
+    const entries = new Map<string, MarkerEntry>();
+    let visible = true;
+
+    function createEntry(marker: Marker): MarkerEntry {
+        const material = new THREE.SpriteMaterial({
+            map: pinTexture,
+            color: new THREE.Color(marker.color ?? DEFAULT_COLOR),
+            transparent: true,
+            depthWrite: false,
+        });
+        const sprite = new THREE.Sprite(material);
+        const scale = PIN_SCALE * (marker.size ?? 1);
+        sprite.scale.set(scale, scale, 1);
+        latLonToVector3(marker.lat, marker.lon, 1 + PIN_ALTITUDE, sprite.position);
+        sprite.userData.markerId = marker.id;
+        group.add(sprite);
+
+        let label: HTMLDivElement | null = null;
+        if (marker.label) {
+            label = document.createElement('div');
+            label.className = 'marker-label';
+            label.textContent = marker.label;
+            labelContainer.appendChild(label);
+        }
+
+        return { marker, sprite, material, label, labelSize: null };
+    }
+
+    function destroyEntry(entry: MarkerEntry) {
+        group.remove(entry.sprite);
+        entry.material.dispose();
+        entry.label?.remove();
+    }
+
+    // ========== Label placement ==========
+    const worldPos = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    const toCamera = new THREE.Vector3();
+    const globeCenter = new THREE.Vector3();
+
+    function updateLabels() {
+        if (!visible || entries.size === 0) return;
+
+        const canvas = renderer.domElement;
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        globeGroup.getWorldPosition(globeCenter);
+
+        const candidates: { entry: MarkerEntry; x: number; y: number; facing: number }[] = [];
+        for (const entry of entries.values()) {
+            if (!entry.label) continue;
+
+            entry.sprite.getWorldPosition(worldPos);
+            normal.copy(worldPos).sub(globeCenter).normalize();
+            toCamera.copy(camera.position).sub(worldPos).normalize();
+            const facing = normal.dot(toCamera);
+
+            if (facing <= 0) {
+                entry.label.style.opacity = '0';
+                continue;
+            }
+
+            worldPos.project(camera);
+            candidates.push({
+                entry,
+                x: (worldPos.x * 0.5 + 0.5) * width,
+                y: (-worldPos.y * 0.5 + 0.5) * height,
+                facing,
+            });
+        }
+
+        // Most important first: bigger markers, then those facing the camera
+        candidates.sort((a, b) =>
+            (b.entry.marker.size ?? 1) - (a.entry.marker.size ?? 1) || b.facing - a.facing
+        );
+
+        const placed: { x1: number; y1: number; x2: number; y2: number }[] = [];
+        for (const { entry, x, y, facing } of candidates) {
+            const label = entry.label!;
+            if (!entry.labelSize) entry.labelSize = { w: label.offsetWidth, h: label.offsetHeight };
+            const { w, h } = entry.labelSize;
+
+            const rect = { x1: x - w / 2, y1: y - LABEL_OFFSET_Y - h, x2: x + w / 2, y2: y - LABEL_OFFSET_Y };
+            const overlaps = placed.some((p) => rect.x1 < p.x2 && rect.x2 > p.x1 && rect.y1 < p.y2 && rect.y2 > p.y1);
+            if (overlaps) {
+                label.style.opacity = '0';
+                continue;
+            }
+            placed.push(rect);
+
+            label.style.transform = `translate(${rect.x1}px, ${rect.y1}px)`;
+            label.style.opacity = String(Math.min(1, facing / LABEL_FADE_START));
+        }
+    }
+
+    const unsubscribe = globe.onFrame(updateLabels);
+
+    const layer: MarkerLayer = {
+        add(marker) {
+            const existing = entries.get(marker.id);
+            if (existing) destroyEntry(existing);
+            entries.set(marker.id, createEntry(marker));
+        },
+
+        remove(id) {
+            const entry = entries.get(id);
+            if (!entry) return;
+            destroyEntry(entry);
+            entries.delete(id);
+        },
+
+        clear() {
+            entries.forEach(destroyEntry);
+            entries.clear();
+        },
+
+        list: () => [...entries.values()].map((e) => e.marker),
+        get: (id) => entries.get(id)?.marker,
+
+        loadGeoJSON(collection, mapping = {}) {
+            const map = { ...DEFAULT_MAPPING, ...mapping };
+            let count = 0;
+
+            collection.features.forEach((feature, i) => {
+                if (feature.geometry?.type !== 'Point') return;
+                const [lon, lat] = feature.geometry.coordinates;
+                const props = feature.properties ?? {};
+
+                const size = Number(props[map.size]);
+                layer.add({
+                    id: String(props[map.id] ?? feature.id ?? `feature-${i}`),
+                    lat,
+                    lon,
+                    color: typeof props[map.color] === 'string' ? (props[map.color] as string) : undefined,
+                    size: Number.isFinite(size) && size > 0 ? size : undefined,
+                    label: props[map.label] !== undefined ? String(props[map.label]) : undefined,
+                    properties: props,
+                });
+                count++;
+            });
+
+            return count;
+        },
+
+        setVisible(value) {
+            visible = value;
+            group.visible = value;
+            labelContainer.style.display = value ? '' : 'none';
+        },
+
+        getPickables: () => [...entries.values()].map((e) => e.sprite),
+
+        pickResolver(pick) {
+            if (!visible) return null;
+
+            // Angular distance on the unit sphere – more forgiving than hitting a tiny sprite with a fingertip
+            let best: MarkerEntry | null = null;
+            let bestAngle = Infinity;
+            for (const entry of entries.values()) {
+                const angle = pick.point.angleTo(entry.sprite.position);
+                const reach = PIN_SCALE * (entry.marker.size ?? 1);
+                if (angle < reach && angle < bestAngle) {
+                    best = entry;
+                    bestAngle = angle;
+                }
+            }
+            if (!best) return null;
+
+            const { id, label, properties } = best.marker;
+            return { layer: 'markers', id, name: label, properties };
+        },
+
+        dispose() {
+            unsubscribe();
+            layer.clear();
+            globeGroup.remove(group);
+            pinTexture.dispose();
+        },
+    };
+
+    return layer;
+}
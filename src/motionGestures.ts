@@ -0,0 +1,207 @@
+/**
+ * Motion Gestures – Trajectory recognition over palm and fingertip history
+ * Detects swipes, circles and quick fingertip flicks per tracked hand.
+ * Positions are converted to screen space (mirrored x) so directions
+ * match what the user sees.
+ */
+
+export type MotionGestureType = 'swipe' | 'circle' | 'flick';
+export type MotionDirection = 'left' | 'right' | 'up' | 'down' | 'cw' | 'ccw';
+
+export interface MotionGestureEvent {
+    hand: number;
+    type: MotionGestureType;
+    direction: MotionDirection;
+    velocity: { x: number; y: number }; // screen units per second (1 = full width/height)
+    speed: number;
+    angularVelocity?: number; // circles only: rad/s, positive = clockwise
+}
+
+export interface MotionGestureOptions {
+    swipeMinDistance: number; // min net palm travel
+    swipeMaxMs: number; // window the travel must happen in
+    swipeMinStraightness: number; // net distance / path length
+    flickMinDistance: number; // fingertip travel relative to the palm
+    flickMaxMs: number;
+    flickMinSpeed: number; // fingertip speed relative to the palm, units per second
+    circleMinTurns: number; // accumulated turns around the centroid
+    circleMinRadius: number;
+    circleMaxMs: number;
+    cooldownMs: number; // quiet period after any detection
+}
+
+export interface MotionGestureRecognizer {
+    /** Feed one frame of a hand; returns a detected motion gesture, if any */
+    update: (
+        hand: number,
+        palm: { x: number; y: number },
+        fingertip: { x: number; y: number },
+        now: number
+    ) => MotionGestureEvent | null;
+    /** Forget a hand's history (e.g. the hand left the frame) */
+    release: (hand: number) => void;
+}
+
+export const DEFAULT_MOTION_OPTIONS: MotionGestureOptions = {
+    swipeMinDistance: 0.25,
+    swipeMaxMs: 400,
+    swipeMinStraightness: 0.8,
+    flickMinDistance: 0.12,
+    flickMaxMs: 150,
+    flickMinSpeed: 1.2,
+    circleMinTurns: 0.9,
+    circleMinRadius: 0.04,
+    circleMaxMs: 1500,
+    cooldownMs: 500,
+};
+
+interface Sample {
+    t: number;
+    px: number; py: number; // palm
+    fx: number; fy: number; // fingertip relative to palm
+}
+
+interface HandHistory {
+    samples: Sample[];
+    cooldownUntil: number;
+}
+
+export function createMotionGestureRecognizer(
+    options: Partial<MotionGestureOptions> = {}
+): MotionGestureRecognizer {
+    const opts = { ...DEFAULT_MOTION_OPTIONS, ...options };
+    const histories = new Map<number, HandHistory>();
+    const maxHistoryMs = Math.max(opts.swipeMaxMs, opts.flickMaxMs, opts.circleMaxMs);
+
+    /** Oldest sample no older than `ms` before the newest one */
+    function windowStart(samples: Sample[], ms: number): number {
+        const newest = samples[samples.length - 1].t;
+        let i = samples.length - 1;
+        while (i > 0 && newest - samples[i - 1].t <= ms) i--;
+        return i;
+    }
+
+    function detectSwipe(hand: number, samples: Sample[]): MotionGestureEvent | null {
+        const start = windowStart(samples, opts.swipeMaxMs);
+        const a = samples[start];
+        const b = samples[samples.length - 1];
+        const dx = b.px - a.px;
+        const dy = b.py - a.py;
+        const dist = Math.hypot(dx, dy);
+        if (dist < opts.swipeMinDistance) return null;
+
+        let path = 0;
+        for (let i = start + 1; i < samples.length; i++) {
+            path += Math.hypot(samples[i].px - samples[i - 1].px, samples[i].py - samples[i - 1].py);
+        }
+        if (dist / path < opts.swipeMinStraightness) return null;
+
+        const dt = Math.max(1, b.t - a.t) / 1000;
+        const direction: MotionDirection = Math.abs(dx) >= Math.abs(dy)
+            ? (dx < 0 ? 'left' : 'right')
+            : (dy < 0 ? 'up' : 'down');
+        return { hand, type: 'swipe', direction, velocity: { x: dx / dt, y: dy / dt }, speed: dist / dt };
+    }
+
+    function detectFlick(hand: number, samples: Sample[]): MotionGestureEvent | null {
+        const a = samples[windowStart(samples, opts.flickMaxMs)];
+        const b = samples[samples.length - 1];
+        const dx = b.fx - a.fx;
+        const dy = b.fy - a.fy;
+        const dist = Math.hypot(dx, dy);
+        if (dist < opts.flickMinDistance) return null;
+
+        // Curling a finger also moves the tip fast – a flick sweeps it sideways
+        // instead, so the tip's distance from the palm barely changes
+        if (Math.abs(Math.hypot(b.fx, b.fy) - Math.hypot(a.fx, a.fy)) > dist * 0.5) return null;
+
+        const dt = Math.max(1, b.t - a.t) / 1000;
+        if (dist / dt < opts.flickMinSpeed) return null;
+        const direction: MotionDirection = Math.abs(dx) >= Math.abs(dy)
+            ? (dx < 0 ? 'left' : 'right')
+            : (dy < 0 ? 'up' : 'down');
+        return { hand, type: 'flick', direction, velocity: { x: dx / dt, y: dy / dt }, speed: dist / dt };
+    }
+
+    function detectCircle(hand: number, samples: Sample[]): MotionGestureEvent | null {
+        const start = windowStart(samples, opts.circleMaxMs);
+        const count = samples.length - start;
+        if (count < 8) return null;
+
+        let cx = 0, cy = 0;
+        for (let i = start; i < samples.length; i++) {
+            cx += samples[i].px;
+            cy += samples[i].py;
+        }
+        cx /= count;
+        cy /= count;
+
+        // Sum the signed angle swept around the centroid
+        let swept = 0;
+        let radius = 0;
+        let prevAngle = Math.atan2(samples[start].py - cy, samples[start].px - cx);
+        for (let i = start; i < samples.length; i++) {
+            const angle = Math.atan2(samples[i].py - cy, samples[i].px - cx);
+            let d = angle - prevAngle;
+            if (d > Math.PI) d -= Math.PI * 2;
+            if (d < -Math.PI) d += Math.PI * 2;
+            swept += d;
+            prevAngle = angle;
+            radius += Math.hypot(samples[i].px - cx, samples[i].py - cy);
+        }
+        radius /= count;
+
+        if (radius < opts.circleMinRadius) return null;
+        if (Math.abs(swept) < opts.circleMinTurns * Math.PI * 2) return null;
+
+        const last = samples[samples.length - 1];
+        const prev = samples[samples.length - 2];
+        const dt = Math.max(1, last.t - samples[start].t) / 1000;
+        const stepDt = Math.max(1, last.t - prev.t) / 1000;
+        const angularVelocity = swept / dt;
+        // Screen y points down, so a positive sweep is clockwise as seen by the user
+        return {
+            hand,
+            type: 'circle',
+            direction: swept > 0 ? 'cw' : 'ccw',
+            velocity: { x: (last.px - prev.px) / stepDt, y: (last.py - prev.py) / stepDt },
+            speed: Math.abs(angularVelocity) * radius,
+            angularVelocity,
+        };
+    }
+
+    return {
+        update(hand, palm, fingertip, now) {
+            let history = histories.get(hand);
+            if (!history) {
+                history = { samples: [], cooldownUntil: 0 };
+                histories.set(hand, history);
+            }
+
+            // Mirror x: the webcam is shown mirrored
+            const px = 1 - palm.x;
+            const py = palm.y;
+            history.samples.push({ t: now, px, py, fx: 1 - fingertip.x - px, fy: fingertip.y - py });
+            while (history.samples.length > 1 && now - history.samples[0].t > maxHistoryMs) {
+                history.samples.shift();
+            }
+
+            if (now < history.cooldownUntil || history.samples.length < 3) return null;
+
+            const samples = history.samples;
+            const event = detectCircle(hand, samples)
+                ?? detectSwipe(hand, samples)
+                ?? detectFlick(hand, samples);
+
+            if (event) {
+                history.samples = [];
+                history.cooldownUntil = now + opts.cooldownMs;
+            }
+            return event;
+        },
+
+        release(hand) {
+            histories.delete(hand);
+        },
+    };
+}
@@ -0,0 +1,251 @@
+/**
+ * Point Selection – Pick places on the globe with an extended index finger
+ * Raycasts from the fingertip's screen position onto the sphere, shows a
+ * reticle and a lat/lon readout, and fires a select event after a dwell.
+ * Layers (markers, countries, ...) report what lies under the reticle
+ * through pick resolvers.
+ */
+
+import * as THREE from 'three';
+import type { GlobeScene } from './globe';
+import { vector3ToLatLon } from './geo';
+import type { TrackedHand } from './handTracking';
+
+/** Something a layer found under the reticle */
+export interface PickTarget {
+    layer: string; // e.g. 'markers', 'countries'
+    id: string;
+    name?: string;
+    properties?: Record<string, unknown>;
+}
+
+export interface GlobePick {
+    lat: number;
+    lon: number;
+    /** Hit point in the globe's local space (on the unit sphere) */
+    point: THREE.Vector3;
+    targets: PickTarget[];
+}
+
+export interface PointSelectEvent extends GlobePick {
+    hand: number;
+}
+
+/** Returns what a layer has under the pick, or null. `raycaster` is already set up from the camera */
+export type PickResolver = (pick: Omit<GlobePick, 'targets'>, raycaster: THREE.Raycaster) => PickTarget | null;
+
+export interface PointSelectionOptions {
+    gesture: string; // pose that activates pointing
+    dwellMs: number; // how long to hold still before selecting
+    /** How far (normalized screen units) the fingertip may wander while dwelling */
+    dwellTolerance: number;
+    smoothing: number; // fingertip low-pass factor (0..1, higher = snappier)
+}
+
+export interface PointSelection {
+    /** Call once per frame with the tracked hands */
+    update: (hands: TrackedHand[], now: number) => void;
+    /** Pick at normalized device coordinates (-1..1); null when the ray misses the globe */
+    pickAt: (ndcX: number, ndcY: number) => GlobePick | null;
+    addResolver: (resolver: PickResolver) => () => void;
+    /** Current pick under the reticle (null when not pointing or off the globe) */
+    getCurrent: () => GlobePick | null;
+    onHover: (listener: (pick: GlobePick | null) => void) => () => void;
+    onSelect: (listener: (event: PointSelectEvent) => void) => () => void;
+    dispose: () => void;
+}
+
+export const DEFAULT_POINT_SELECTION_OPTIONS: PointSelectionOptions = {
+    gesture: 'point',
+    dwellMs: 1200,
+    dwellTolerance: 0.03,
+    smoothing: 0.4,
+};
+
+const INDEX_TIP = 8;
+const RETICLE_ALTITUDE = 1.02; // above the cloud layer
+const RETICLE_SEGMENTS = 48;
+
+function formatLatLon(lat: number, lon: number): string {
+    const ns = lat >= 0 ? 'N' : 'S';
+    const ew = lon >= 0 ? 'E' : 'W';
+    return `${Math.abs(lat).toFixed(2)}°${ns}, ${Math.abs(lon).toFixed(2)}°${ew}`;
+}
+
+function subscribe<T>(set: Set<T>, listener: T): () => void {
+    set.add(listener);
+    return () => {
+        set.delete(listener);
+    };
+}
+
+export function createPointSelection(
+    globe: GlobeScene,
+    readout: HTMLElement,
+    options: Partial<PointSelectionOptions> = {}
+): PointSelection {
+    const opts = { ...DEFAULT_POINT_SELECTION_OPTIONS, ...options };
+    const { globeGroup, camera } = globe;
+
+    const resolvers = new Set<PickResolver>();
+    const hoverListeners = new Set<(pick: GlobePick | null) => void>();
+    const selectListeners = new Set<(event: PointSelectEvent) => void>();
+
+    const raycaster = new THREE.Raycaster();
+    const sphere = new THREE.Sphere();
+    const ndc = new THREE.Vector2();
+    const hitWorld = new THREE.Vector3();
+
+    // ========== Reticle ==========
+    // Outer ring marks the spot; the inner ring fills clockwise as the dwell progresses
+    const reticle = new THREE.Group();
+    const ringMaterial = new THREE.MeshBasicMaterial({
+        color: 0xffffff,
+        transparent: true,
+        opacity: 0.9,
+        side: THREE.DoubleSide,
+        depthTest: false,
+    });
+    const progressMaterial = ringMaterial.clone();
+    progressMaterial.color.set(0x69f0ae);
+
+    const ringGeometry = new THREE.RingGeometry(0.03, 0.036, RETICLE_SEGMENTS);
+    const progressGeometry = new THREE.RingGeometry(0.018, 0.026, RETICLE_SEGMENTS, 1, Math.PI / 2, -Math.PI * 2);
+    reticle.add(new THREE.Mesh(ringGeometry, ringMaterial));
+    reticle.add(new THREE.Mesh(progressGeometry, progressMaterial));
+    reticle.visible = false;
+    reticle.renderOrder = 10;
+    globeGroup.add(reticle);
+
+    function setDwellProgress(progress: number) {
+        // 6 indices per ring segment
+        progressGeometry.setDrawRange(0, Math.floor(progress * RETICLE_SEGMENTS) * 6);
+    }
+
+    // ========== Picking ==========
+    function pickAt(ndcX: number, ndcY: number): GlobePick | null {
+        ndc.set(ndcX, ndcY);
+        raycaster.setFromCamera(ndc, camera);
+
+        globeGroup.getWorldPosition(sphere.center);
+        sphere.radius = globeGroup.scale.x;
+        if (!raycaster.ray.intersectSphere(sphere, hitWorld)) return null;
+
+        const point = globeGroup.worldToLocal(hitWorld.clone()).normalize();
+        const { lat, lon } = vector3ToLatLon(point);
+        const base = { lat, lon, point };
+
+        const targets: PickTarget[] = [];
+        for (const resolve of resolvers) {
+            const target = resolve(base, raycaster);
+            if (target) targets.push(target);
+        }
+        return { ...base, targets };
+    }
+
+    // ========== Pointing state ==========
+    let current: GlobePick | null = null;
+    let pointingHand: number | null = null;
+    let tip: { x: number; y: number } | null = null; // smoothed, mirrored screen coords (0..1)
+    let dwellAnchor: { x: number; y: number } | null = null;
+    let dwellStart = 0;
+    let dwellDone = false;
+
+    function clear() {
+        const hadPick = current !== null;
+        current = null;
+        pointingHand = null;
+        tip = null;
+        dwellAnchor = null;
+        dwellDone = false;
+        reticle.visible = false;
+        readout.classList.remove('visible');
+        if (hadPick) hoverListeners.forEach((l) => l(null));
+    }
+
+    function update(hands: TrackedHand[], now: number) {
+        const hand = hands.find((h) => h.gesture === opts.gesture);
+        if (!hand) {
+            clear();
+            return;
+        }
+        if (hand.id !== pointingHand) {
+            clear();
+            pointingHand = hand.id;
+        }
+
+        // Mirror x like the webcam background so the reticle sits under the fingertip
+        const raw = hand.landmarks[INDEX_TIP];
+        const x = 1 - raw.x;
+        const y = raw.y;
+        tip = tip
+            ? { x: tip.x + (x - tip.x) * opts.smoothing, y: tip.y + (y - tip.y) * opts.smoothing }
+            : { x, y };
+
+        const pick = pickAt(tip.x * 2 - 1, -(tip.y * 2 - 1));
+        const prevTargets = current?.targets.map((t) => `${t.layer}:${t.id}`).join() ?? null;
+        current = pick;
+
+        if (!pick) {
+            reticle.visible = false;
+            readout.classList.remove('visible');
+            dwellAnchor = null;
+            dwellDone = false;
+            if (prevTargets !== null) hoverListeners.forEach((l) => l(null));
+            return;
+        }
+
+        // Reticle lies flat on the surface
+        reticle.visible = true;
+        reticle.position.copy(pick.point).multiplyScalar(RETICLE_ALTITUDE);
+        reticle.lookAt(globeGroup.localToWorld(pick.point.clone().multiplyScalar(2)));
+
+        const names = pick.targets.map((t) => t.name ?? t.id);
+        readout.textContent = [formatLatLon(pick.lat, pick.lon), ...names].join(' · ');
+        const view = globe.renderer.domElement;
+        readout.style.transform = `translate(${tip.x * view.clientWidth + 18}px, ${tip.y * view.clientHeight + 18}px)`;
+        readout.classList.add('visible');
+
+        if (pick.targets.map((t) => `${t.layer}:${t.id}`).join() !== prevTargets) {
+            hoverListeners.forEach((l) => l(pick));
+        }
+
+        // ========== Dwell ==========
+        if (!dwellAnchor || Math.hypot(tip.x - dwellAnchor.x, tip.y - dwellAnchor.y) > opts.dwellTolerance) {
+            dwellAnchor = { ...tip };
+            dwellStart = now;
+            dwellDone = false;
+        }
+
+        const progress = Math.min(1, (now - dwellStart) / opts.dwellMs);
+        setDwellProgress(dwellDone ? 0 : progress);
+
+        if (progress >= 1 && !dwellDone) {
+            // One select per dwell; the finger has to move (or stop pointing) to select again
+            dwellDone = true;
+            const event: PointSelectEvent = { ...pick, hand: hand.id };
+            selectListeners.forEach((l) => l(event));
+        }
+    }
+
+    return {
+        update,
+        pickAt,
+        addResolver: (resolver) => subscribe(resolvers, resolver),
+        getCurrent: () => current,
+        onHover: (listener) => subscribe(hoverListeners, listener),
+        onSelect: (listener) => subscribe(selectListeners, listener),
+
+        dispose() {
+            clear();
+            globeGroup.remove(reticle);
+            ringGeometry.dispose();
+            progressGeometry.dispose();
+            ringMaterial.dispose();
+            progressMaterial.dispose();
+            resolvers.clear();
+            hoverListeners.clear();
+            selectListeners.clear();
+        },
+    };
+}
@@ -0,0 +1,181 @@
+/**
+ * Pointer Controls – Mouse, touch and keyboard input for the globe
+ * Drag to rotate, wheel / pinch to zoom, two-finger drag to pan,
+ * arrow keys and +/- for accessibility, B / Shift+B to cycle celestial
+ * bodies. Drives the same GlobeControls API as hand gestures.
+ */
+
+import type { GlobeControls } from './globe';
+
+export interface PointerControlOptions {
+    rotateSpeed: number; // radians per pixel dragged
+    wheelZoomSpeed: number; // zoom distance per wheel delta unit
+    pinchZoomSpeed: number; // zoom distance per pixel of pinch spread
+    keyRotateStep: number; // radians per arrow key press
+    keyZoomStep: number; // zoom distance per +/- press
+    /** How long (ms) after the last input manual control keeps priority */
+    holdMs: number;
+    /** Where key presses are heard; an embedded globe passes its own (focusable) element */
+    keyTarget: EventTarget;
+}
+
+export interface PointerControls {
+    /** True while the user is (or was just) using mouse, touch or keyboard */
+    isActive: () => boolean;
+    dispose: () => void;
+}
+
+export const DEFAULT_POINTER_OPTIONS: PointerControlOptions = {
+    rotateSpeed: 0.005,
+    wheelZoomSpeed: 0.002,
+    pinchZoomSpeed: 0.01,
+    keyRotateStep: 0.08,
+    keyZoomStep: 0.3,
+    holdMs: 1500,
+    keyTarget: window,
+};
+
+/** Keys typed into form fields or editable content belong to them, not the globe */
+export function isEditableTarget(target: EventTarget | null): boolean {
+    return (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        target instanceof HTMLSelectElement ||
+        (target instanceof HTMLElement && target.isContentEditable)
+    );
+}
+
+export function createPointerControls(
+    element: HTMLElement,
+    controls: GlobeControls,
+    options: Partial<PointerControlOptions> = {}
+): PointerControls {
+    const opts = { ...DEFAULT_POINTER_OPTIONS, ...options };
+    const pointers = new Map<number, { x: number; y: number }>();
+    let lastInput = -Infinity;
+
+    // Two-finger gesture reference
+    let prevSpread: number | null = null;
+    let prevMid: { x: number; y: number } | null = null;
+
+    function touch() {
+        lastInput = performance.now();
+        controls.setAutoRotate(false);
+    }
+
+    function twoFingerState() {
+        const [a, b] = [...pointers.values()];
+        return {
+            spread: Math.hypot(a.x - b.x, a.y - b.y),
+            mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+        };
+    }
+
+    // ========== Pointer (mouse + touch) ==========
+    function onPointerDown(e: PointerEvent) {
+        element.setPointerCapture(e.pointerId);
+        pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        prevSpread = null;
+        prevMid = null;
+        touch();
+    }
+
+    function onPointerMove(e: PointerEvent) {
+        const prev = pointers.get(e.pointerId);
+        if (!prev) return;
+        const dx = e.clientX - prev.x;
+        const dy = e.clientY - prev.y;
+        pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        touch();
+
+        if (pointers.size === 1) {
+            // Drag → rotate
+            controls.rotateY(dx * opts.rotateSpeed);
+            controls.rotateX(dy * opts.rotateSpeed);
+            return;
+        }
+
+        // Two fingers → pinch zoom + pan
+        const { spread, mid } = twoFingerState();
+        if (prevSpread !== null) {
+            controls.setZoom(controls.getZoom() - (spread - prevSpread) * opts.pinchZoomSpeed);
+        }
+        if (prevMid !== null) {
+            // movePosition expects mirrored, normalized webcam deltas
+            const rect = element.getBoundingClientRect();
+            controls.movePosition(-(mid.x - prevMid.x) / rect.width, (mid.y - prevMid.y) / rect.height);
+        }
+        prevSpread = spread;
+        prevMid = mid;
+    }
+
+    function onPointerUp(e: PointerEvent) {
+        // Releasing a one-finger/mouse drag lets the globe spin on
+        if (pointers.size === 1 && pointers.has(e.pointerId)) controls.fling();
+        pointers.delete(e.pointerId);
+        prevSpread = null;
+        prevMid = null;
+    }
+
+    function onWheel(e: WheelEvent) {
+        e.preventDefault();
+        touch();
+        controls.setZoom(controls.getZoom() + e.deltaY * opts.wheelZoomSpeed);
+    }
+
+    // ========== Keyboard ==========
+    function onKeyDown(e: KeyboardEvent) {
+        if (isEditableTarget(e.target)) return;
+
+        switch (e.key) {
+            case 'ArrowLeft':
+                controls.rotateY(-opts.keyRotateStep);
+                break;
+            case 'ArrowRight':
+                controls.rotateY(opts.keyRotateStep);
+                break;
+            case 'ArrowUp':
+                controls.rotateX(-opts.keyRotateStep);
+                break;
+            case 'ArrowDown':
+                controls.rotateX(opts.keyRotateStep);
+                break;
+            case '+':
+            case '=':
+                controls.setZoom(controls.getZoom() - opts.keyZoomStep);
+                break;
+            case '-':
+            case '_':
+                controls.setZoom(controls.getZoom() + opts.keyZoomStep);
+                break;
+            case 'b':
+            case 'B':
+                controls.cycleBody(e.shiftKey ? -1 : 1);
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+        touch();
+    }
+
+    element.addEventListener('pointerdown', onPointerDown);
+    element.addEventListener('pointermove', onPointerMove);
+    element.addEventListener('pointerup', onPointerUp);
+    element.addEventListener('pointercancel', onPointerUp);
+    element.addEventListener('wheel', onWheel, { passive: false });
+    opts.keyTarget.addEventListener('keydown', onKeyDown as EventListener);
+
+    return {
+        isActive: () => pointers.size > 0 || performance.now() - lastInput < opts.holdMs,
+
+        dispose() {
+            element.removeEventListener('pointerdown', onPointerDown);
+            element.removeEventListener('pointermove', onPointerMove);
+            element.removeEventListener('pointerup', onPointerUp);
+            element.removeEventListener('pointercancel', onPointerUp);
+            element.removeEventListener('wheel', onWheel);
+            opts.keyTarget.removeEventListener('keydown', onKeyDown as EventListener);
+        },
+    };
+}
@@ -0,0 +1,286 @@
+/**
+ * Settings – Runtime tuning for tracking, gestures and the globe
+ * One field table drives the HUD panel, the URL parameters and validation.
+ * Settings persist in localStorage and travel between kiosks as JSON files.
+ */
+
+import { DEFAULT_GESTURE_THRESHOLDS, GestureThresholds } from './gestures';
+import { DEFAULT_TRACKING_SETTINGS, TrackingSettings } from './handTracking';
+import { DEFAULT_ZOOM_RANGE } from './globe';
+import { createElement, downloadBlob } from './dom';
+
+export interface AppSettings {
+    maxNumHands: number;
+    minDetectionConfidence: number;
+    minTrackingConfidence: number;
+    /** Normalized thumb–index distance a pinch starts below (it ends 0.1 above) */
+    pinchThreshold: number;
+    /** Dwell before a gesture starts / ends, for rules without their own */
+    gestureEnterMs: number;
+    gestureExitMs: number;
+    minZoom: number;
+    maxZoom: number;
+    /** Multipliers on the binding profile's rotate and zoom sensitivity */
+    rotateSpeed: number;
+    zoomSpeed: number;
+    /** Scene units the two-hand grab moves the globe per screen width */
+    moveSpeed: number;
+}
+
+export interface SettingField {
+    key: keyof AppSettings;
+    label: string;
+    group: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+export interface SettingsPanel {
+    /** Show these values (e.g. after an import) without calling onChange */
+    set: (settings: AppSettings) => void;
+    /** Disable a field's slider and say why (e.g. a calibration profile overrides it); null enables it */
+    lock: (key: keyof AppSettings, reason: string | null) => void;
+    toggle: (open?: boolean) => void;
+    isOpen: () => boolean;
+    dispose: () => void;
+}
+
+export interface SettingsPanelOptions {
+    /** Every edit, import and reset; `field` is the slider edited, omitted for imports and resets */
+    onChange: (settings: AppSettings, field?: keyof AppSettings) => void;
+    /** Import failures */
+    onError?: (error: Error) => void;
+}
+
+export const SETTINGS_VERSION = 1;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    maxNumHands: DEFAULT_TRACKING_SETTINGS.maxNumHands,
+    minDetectionConfidence: DEFAULT_TRACKING_SETTINGS.minDetectionConfidence,
+    minTrackingConfidence: DEFAULT_TRACKING_SETTINGS.minTrackingConfidence,
+    pinchThreshold: DEFAULT_GESTURE_THRESHOLDS.pinchEnter,
+    gestureEnterMs: DEFAULT_TRACKING_SETTINGS.gestureTiming.enterMs,
+    gestureExitMs: DEFAULT_TRACKING_SETTINGS.gestureTiming.exitMs,
+    minZoom: DEFAULT_ZOOM_RANGE.min,
+    maxZoom: DEFAULT_ZOOM_RANGE.max,
+    rotateSpeed: 1,
+    zoomSpeed: 1,
+    moveSpeed: 5,
+};
+
+export const SETTING_FIELDS: SettingField[] = [
+    { key: 'maxNumHands', label: 'Max hands', group: 'Tracking', min: 1, max: 4, step: 1 },
+    { key: 'minDetectionConfidence', label: 'Detection confidence', group: 'Tracking', min: 0.1, max: 0.95, step: 0.05 },
+    { key: 'minTrackingConfidence', label: 'Tracking confidence', group: 'Tracking', min: 0.1, max: 0.95, step: 0.05 },
+    { key: 'pinchThreshold', label: 'Pinch threshold', group: 'Gestures', min: 0.1, max: 1.2, step: 0.05 },
+    { key: 'gestureEnterMs', label: 'Start delay (ms)', group: 'Gestures', min: 0, max: 500, step: 10 },
+    { key: 'gestureExitMs', label: 'End delay (ms)', group: 'Gestures', min: 0, max: 500, step: 10 },
+    { key: 'minZoom', label: 'Closest zoom', group: 'Globe', min: 1.2, max: 20, step: 0.1 },
+    { key: 'maxZoom', label: 'Farthest zoom', group: 'Globe', min: 1.2, max: 20, step: 0.1 },
+    { key: 'rotateSpeed', label: 'Rotate speed (×)', group: 'Globe', min: 0.1, max: 4, step: 0.1 },
+    { key: 'zoomSpeed', label: 'Zoom speed (×)', group: 'Globe', min: 0.1, max: 4, step: 0.1 },
+    { key: 'moveSpeed', label: 'Move speed', group: 'Globe', min: 0, max: 15, step: 0.5 },
+];
+
+// ========== Validation ==========
+
+/**
+ * Keep the known fields that hold numbers (or numeric strings, as in URLs),
+ * clamped to their range. Unknown keys are dropped.
+ */
+export function sanitizeSettings(data: Record<string, unknown>): Partial<AppSettings> {
+    const settings: Partial<AppSettings> = {};
+    for (const field of SETTING_FIELDS) {
+        const raw = data[field.key];
+        if (raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '')) continue;
+        const value = Number(raw);
+        if (!Number.isFinite(value)) continue;
+        const clamped = Math.max(field.min, Math.min(field.max, value));
+        settings[field.key] = field.step === 1 ? Math.round(clamped) : clamped;
+    }
+    return settings;
+}
+
+/** ?maxNumHands=1&pinchThreshold=0.4 … – same names as the fields */
+export function settingsFromUrl(search = window.location.search): Partial<AppSettings> {
+    return sanitizeSettings(Object.fromEntries(new URLSearchParams(search)));
+}
+
+export function toTrackingSettings(settings: AppSettings): TrackingSettings {
+    return {
+        maxNumHands: settings.maxNumHands,
+        minDetectionConfidence: settings.minDetectionConfidence,
+        minTrackingConfidence: settings.minTrackingConfidence,
+        gestureTiming: { enterMs: settings.gestureEnterMs, exitMs: settings.gestureExitMs },
+    };
+}
+
+/** Thresholds for visitors without a calibration profile */
+export function toGestureThresholds(settings: AppSettings): GestureThresholds {
+    return {
+        ...DEFAULT_GESTURE_THRESHOLDS,
+        pinchEnter: settings.pinchThreshold,
+        pinchExit: settings.pinchThreshold + 0.1,
+    };
+}
+
+// ========== Persistence ==========
+
+const STORAGE_KEY = 'hand-globe.settings';
+
+// localStorage may be unavailable (private mode, sandboxed iframes) – act as empty
+export function loadStoredSettings(): Partial<AppSettings> {
+    try {
+        const data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        return data && typeof data === 'object' ? sanitizeSettings(data) : {};
+    } catch {
+        return {};
+    }
+}
+
+export function storeSettings(settings: Partial<AppSettings>) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (err) {
+        console.error('Could not save settings:', err);
+    }
+}
+
+export function serializeSettings(settings: AppSettings): string {
+    return JSON.stringify({ version: SETTINGS_VERSION, settings }, null, 2);
+}
+
+/** Parse an exported settings file; fields it lacks keep their defaults */
+export function parseSettings(json: string): AppSettings {
+    const data = JSON.parse(json);
+    if (!data || typeof data !== 'object' || !data.settings || typeof data.settings !== 'object') {
+        throw new Error('Not a settings file: missing "settings"');
+    }
+    if (data.version !== SETTINGS_VERSION) {
+        throw new Error(`Unsupported settings version ${data.version} (expected ${SETTINGS_VERSION})`);
+    }
+    return { ...DEFAULT_SETTINGS, ...sanitizeSettings(data.settings) };
+}
+
+export function downloadSettings(settings: AppSettings, filename = 'hand-globe-settings.json') {
+    downloadBlob(new Blob([serializeSettings(settings)], { type: 'application/json' }), filename);
+}
+
+// ========== Panel ==========
+
+function formatValue(field: SettingField, value: number) {
+    const decimals = field.step >= 1 ? 0 : Math.max(0, -Math.floor(Math.log10(field.step)));
+    return value.toFixed(decimals);
+}
+
+/** Sliders for every field plus export, import and reset, built into `panel` */
+export function createSettingsPanel(
+    panel: HTMLElement,
+    initial: AppSettings,
+    options: SettingsPanelOptions
+): SettingsPanel {
+    let settings = { ...initial };
+    const rows = new Map<keyof AppSettings, { input: HTMLInputElement; value: HTMLElement; note: HTMLElement }>();
+
+    const children: HTMLElement[] = [];
+    let group = '';
+    for (const field of SETTING_FIELDS) {
+        if (field.group !== group) {
+            group = field.group;
+            const heading = createElement('div', 'settings-group');
+            heading.textContent = group;
+            children.push(heading);
+        }
+
+        const row = createElement('label', 'settings-row');
+        const label = createElement('span', 'settings-label');
+        label.textContent = field.label;
+        const value = createElement('span', 'settings-value');
+        const input = createElement('input', 'settings-input');
+        input.type = 'range';
+        input.min = String(field.min);
+        input.max = String(field.max);
+        input.step = String(field.step);
+        input.addEventListener('input', () => {
+            settings = { ...settings, ...sanitizeSettings({ [field.key]: input.value }) };
+            value.textContent = formatValue(field, settings[field.key]);
+            options.onChange(settings, field.key);
+        });
+        const note = createElement('span', 'settings-note');
+        note.hidden = true;
+        row.append(label, value, input, note);
+        children.push(row);
+        rows.set(field.key, { input, value, note });
+    }
+
+    const actions = createElement('div', 'settings-actions');
+    const exportButton = createElement('button', 'settings-button');
+    exportButton.type = 'button';
+    exportButton.textContent = 'Export';
+    exportButton.addEventListener('click', () => downloadSettings(settings));
+
+    const fileInput = createElement('input', 'settings-file');
+    fileInput.type = 'file';
+    fileInput.accept = '.json,application/json';
+    fileInput.hidden = true;
+    fileInput.addEventListener('change', async () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = '';
+        if (!file) return;
+        try {
+            set(parseSettings(await file.text()));
+            options.onChange(settings);
+        } catch (err) {
+            options.onError?.(err as Error);
+        }
+    });
+    const importButton = createElement('button', 'settings-button');
+    importButton.type = 'button';
+    importButton.textContent = 'Import';
+    importButton.addEventListener('click', () => fileInput.click());
+
+    const resetButton = createElement('button', 'settings-button');
+    resetButton.type = 'button';
+    resetButton.textContent = 'Reset';
+    resetButton.addEventListener('click', () => {
+        set(DEFAULT_SETTINGS);
+        options.onChange(settings);
+    });
+
+    actions.append(exportButton, importButton, resetButton, fileInput);
+    children.push(actions);
+    panel.replaceChildren(...children);
+
+    function set(next: AppSettings) {
+        settings = { ...next };
+        for (const field of SETTING_FIELDS) {
+            const row = rows.get(field.key)!;
+            row.input.value = String(settings[field.key]);
+            row.value.textContent = formatValue(field, settings[field.key]);
+        }
+    }
+    set(settings);
+
+    return {
+        set,
+
+        lock(key, reason) {
+            const row = rows.get(key)!;
+            row.input.disabled = reason !== null;
+            row.note.textContent = reason ?? '';
+            row.note.hidden = reason === null;
+        },
+
+        toggle(open = !panel.classList.contains('visible')) {
+            panel.classList.toggle('visible', open);
+        },
+
+        isOpen: () => panel.classList.contains('visible'),
+
+        dispose() {
+            panel.classList.remove('visible');
+            panel.replaceChildren();
+        },
+    };
+}
@@ -0,0 +1,42 @@
+/**
+ * Sun Position – Where the Sun is overhead at a given moment
+ * Uses the NOAA low-precision formulas for solar declination and the
+ * equation of time (accurate to a fraction of a degree), which is plenty
+ * for placing the day/night terminator.
+ */
+
+import type { LatLon } from './geo';
+
+const DEG = 180 / Math.PI;
+
+function dayOfYear(date: Date): number {
+    const start = Date.UTC(date.getUTCFullYear(), 0, 1);
+    return Math.floor((date.getTime() - start) / 86_400_000) + 1;
+}
+
+/**
+ * Subsolar point: latitude = solar declination, longitude from the hour angle
+ */
+export function subsolarPoint(date: Date): LatLon {
+    const hours = date.getUTCHours() + date.getUTCMinutes() / 60 + date.getUTCSeconds() / 3600;
+
+    // Fractional year (radians)
+    const g = ((2 * Math.PI) / 365) * (dayOfYear(date) - 1 + (hours - 12) / 24);
+
+    const declination =
+        0.006918
+        - 0.399912 * Math.cos(g) + 0.070257 * Math.sin(g)
+        - 0.006758 * Math.cos(2 * g) + 0.000907 * Math.sin(2 * g)
+        - 0.002697 * Math.cos(3 * g) + 0.00148 * Math.sin(3 * g);
+
+    // Equation of time (minutes): how far solar noon drifts from 12:00 UTC at Greenwich
+    const equationOfTime =
+        229.18 * (0.000075
+            + 0.001868 * Math.cos(g) - 0.032077 * Math.sin(g)
+            - 0.014615 * Math.cos(2 * g) - 0.040849 * Math.sin(2 * g));
+
+    let lon = -15 * (hours - 12 + equationOfTime / 60);
+    lon = ((((lon + 180) % 360) + 360) % 360) - 180;
+
+    return { lat: declination * DEG, lon };
+}
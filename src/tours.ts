@@ -0,0 +1,268 @@
+/**
+ * Tours – Scripted presentations over the globe
+ * A tour is a JSON list of stops (place, zoom, layers, caption, duration).
+ * The player flies from stop to stop, shows each caption in the HUD and
+ * moves on by itself; next/previous/pause are exposed for gestures and keys.
+ */
+
+import type { GlobeControls } from './globe';
+import type { CountryLayer } from './countries';
+import { createEventBus, EventSource } from './events';
+import { createElement } from './dom';
+
+export type TourLayer = 'countries' | 'arcs' | 'markers' | 'data';
+
+export interface TourStop {
+    lat: number;
+    lon: number;
+    /** Camera distance; omitted keeps the current zoom */
+    zoom?: number;
+    title?: string;
+    caption: string;
+    /** How long to stay once arrived (ms, default 6000) */
+    durationMs?: number;
+    /** Flight time to this stop (ms, default 2000) */
+    flyMs?: number;
+    /** Celestial body to switch to first (see bodies.ts) */
+    body?: string;
+    /** Layers to show (true) or hide (false) from this stop on */
+    layers?: Partial<Record<TourLayer, boolean>>;
+    /** Outline the country under lat/lon */
+    highlightCountry?: boolean;
+}
+
+export interface Tour {
+    name: string;
+    stops: TourStop[];
+    /** Start over after the last stop instead of ending */
+    loop?: boolean;
+}
+
+export interface TourPlayerEvents {
+    /** A stop was entered (the flight to it starts) */
+    stop: { stop: TourStop; index: number };
+    pause: { paused: boolean };
+    /** The tour finished or was stopped */
+    end: { tour: Tour };
+}
+
+/** What stops can switch on and off */
+export interface TourTargets {
+    layers?: Partial<Record<TourLayer, { setVisible: (visible: boolean) => void }>>;
+    countries?: Pick<CountryLayer, 'countryAt' | 'setHighlight'>;
+}
+
+export interface TourPlayer {
+    events: EventSource<TourPlayerEvents>;
+    /** Start `tour` from its first stop */
+    play: (tour: Tour) => void;
+    /** Next stop; past the last one the tour loops or ends */
+    next: () => void;
+    previous: () => void;
+    goTo: (index: number) => void;
+    setPaused: (paused: boolean) => void;
+    togglePause: () => void;
+    isPaused: () => boolean;
+    /** A tour is loaded and hasn't ended (paused or not) */
+    isActive: () => boolean;
+    /** End the tour and hide the caption */
+    stop: () => void;
+    dispose: () => void;
+}
+
+const DEFAULT_DURATION_MS = 6000;
+const DEFAULT_FLY_MS = 2000;
+const LAYERS: TourLayer[] = ['countries', 'arcs', 'markers', 'data'];
+
+// ========== Parsing ==========
+
+/**
+ * Parse and validate a tour. Throws with a readable message pointing at the
+ * offending stop.
+ */
+export function parseTour(json: string): Tour {
+    const data = JSON.parse(json);
+    if (!data || typeof data !== 'object' || !Array.isArray(data.stops) || data.stops.length === 0) {
+        throw new Error('Not a tour: "stops" must list at least one stop');
+    }
+
+    data.stops.forEach((stop: TourStop, i: number) => {
+        if (!stop || typeof stop !== 'object') throw new Error(`Stop ${i}: not an object`);
+        if (!Number.isFinite(stop.lat) || !Number.isFinite(stop.lon)) {
+            throw new Error(`Stop ${i}: "lat" and "lon" must be numbers`);
+        }
+        if (typeof stop.caption !== 'string') {
+            throw new Error(`Stop ${i}: "caption" must be a string`);
+        }
+        for (const key of ['zoom', 'durationMs', 'flyMs'] as const) {
+            const value = stop[key];
+            if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+                throw new Error(`Stop ${i}: "${key}" must be a non-negative number`);
+            }
+        }
+        for (const key of ['title', 'body'] as const) {
+            if (stop[key] !== undefined && typeof stop[key] !== 'string') throw new Error(`Stop ${i}: "${key}" must be a string`);
+        }
+        if (stop.highlightCountry !== undefined && typeof stop.highlightCountry !== 'boolean') {
+            throw new Error(`Stop ${i}: "highlightCountry" must be true or false`);
+        }
+        if (stop.layers !== undefined && (typeof stop.layers !== 'object' || stop.layers === null)) {
+            throw new Error(`Stop ${i}: "layers" must map layer names to true or false`);
+        }
+        for (const [layer, visible] of Object.entries(stop.layers ?? {})) {
+            if (!LAYERS.includes(layer as TourLayer)) throw new Error(`Stop ${i}: unknown layer "${layer}"`);
+            if (typeof visible !== 'boolean') throw new Error(`Stop ${i}: layer "${layer}" must be true or false`);
+        }
+    });
+    if (data.loop !== undefined && typeof data.loop !== 'boolean') throw new Error('"loop" must be true or false');
+
+    return { name: typeof data.name === 'string' ? data.name : 'tour', loop: data.loop ?? false, stops: data.stops };
+}
+
+export async function loadTour(url: string): Promise<Tour> {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Failed to load tour ${url}: ${res.status}`);
+    return parseTour(await res.text());
+}
+
+// ========== Player ==========
+
+/** Play tours on `controls`, captioning each stop in `caption` */
+export function createTourPlayer(
+    controls: GlobeControls,
+    caption: HTMLElement,
+    targets: TourTargets = {}
+): TourPlayer {
+    const events = createEventBus<TourPlayerEvents>();
+
+    let tour: Tour | null = null;
+    let index = 0;
+    let paused = false;
+    let visit = 0; // bumped on every stop change, so stale flights don't schedule
+    let arrived = false;
+    let dwellTimer: ReturnType<typeof setTimeout> | null = null;
+    let dwellRemaining = 0;
+    let dwellStarted = 0;
+    let autoRotateBefore = false; // restored when the tour ends
+
+    const title = createElement('div', 'tour-title');
+    const text = createElement('div', 'tour-text');
+    const meta = createElement('div', 'tour-meta');
+    caption.replaceChildren(title, text, meta);
+
+    function render() {
+        if (!tour) return;
+        const stop = tour.stops[index];
+        title.textContent = stop.title ?? tour.name;
+        text.textContent = stop.caption;
+        meta.textContent = `${index + 1} / ${tour.stops.length}${paused ? ' · ⏸ Paused' : ''}`;
+        caption.classList.add('visible');
+    }
+
+    function clearDwell() {
+        if (dwellTimer) clearTimeout(dwellTimer);
+        dwellTimer = null;
+    }
+
+    function startDwell() {
+        clearDwell();
+        dwellStarted = performance.now();
+        dwellTimer = setTimeout(advance, dwellRemaining);
+    }
+
+    function advance() {
+        if (!tour) return;
+        if (index + 1 < tour.stops.length) goTo(index + 1);
+        else if (tour.loop) goTo(0);
+        else end();
+    }
+
+    function applyStop(stop: TourStop) {
+        for (const [layer, visible] of Object.entries(stop.layers ?? {})) {
+            targets.layers?.[layer as TourLayer]?.setVisible(visible);
+        }
+        const country = stop.highlightCountry ? targets.countries?.countryAt(stop.lat, stop.lon) : null;
+        targets.countries?.setHighlight(country?.id ?? null);
+    }
+
+    async function goTo(next: number) {
+        if (!tour) return;
+        index = ((next % tour.stops.length) + tour.stops.length) % tour.stops.length;
+        const stop = tour.stops[index];
+        const current = ++visit;
+        clearDwell();
+        arrived = false;
+        dwellRemaining = stop.durationMs ?? DEFAULT_DURATION_MS;
+        controls.setAutoRotate(false);
+        render();
+        events.emit('stop', { stop, index });
+
+        try {
+            if (stop.body && stop.body !== controls.getBody().id) await controls.setBody(stop.body);
+            if (current !== visit) return;
+            applyStop(stop);
+            // Also resolves when a hand or the mouse takes over mid-flight; the stop still counts as reached
+            await controls.flyTo(stop.lat, stop.lon, stop.zoom, stop.flyMs ?? DEFAULT_FLY_MS);
+        } catch (err) {
+            console.error(`Tour stop ${index} failed:`, err);
+        }
+        if (current !== visit) return;
+        arrived = true;
+        if (!paused) startDwell();
+    }
+
+    function setPaused(next: boolean) {
+        if (!tour || next === paused) return;
+        paused = next;
+        if (paused && dwellTimer) {
+            dwellRemaining = Math.max(0, dwellRemaining - (performance.now() - dwellStarted));
+            clearDwell();
+        } else if (!paused) {
+            controls.setAutoRotate(false); // hands may have re-enabled it during the pause
+            if (arrived) startDwell();
+        }
+        render();
+        events.emit('pause', { paused });
+    }
+
+    function end() {
+        if (!tour) return;
+        const ended = tour;
+        tour = null;
+        visit++;
+        paused = false;
+        clearDwell();
+        targets.countries?.setHighlight(null);
+        controls.setAutoRotate(autoRotateBefore);
+        caption.classList.remove('visible');
+        events.emit('end', { tour: ended });
+    }
+
+    return {
+        events,
+
+        play(next) {
+            end();
+            autoRotateBefore = controls.getAutoRotate();
+            tour = next;
+            paused = false;
+            goTo(0);
+        },
+
+        // Past the last stop the tour loops or ends, as when it plays on by itself
+        next: advance,
+        previous: () => goTo(Math.max(0, index - 1)),
+        goTo,
+        setPaused,
+        togglePause: () => setPaused(!paused),
+        isPaused: () => paused,
+        isActive: () => tour !== null,
+        stop: end,
+
+        dispose() {
+            end();
+            events.clear();
+            caption.replaceChildren();
+        },
+    };
+}
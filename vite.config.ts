@@ -1,5 +1,77 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
+import { createReadStream, existsSync, readdirSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
 
-export default defineConfig({
+// MediaPipe Hands loads its WASM, model and loader files at runtime. Serve them from
+// node_modules in dev and copy them into the build, so tracking works without a CDN.
+const MEDIAPIPE_DIR = fileURLToPath(new URL('./node_modules/@mediapipe/hands/', import.meta.url));
+const MEDIAPIPE_FILES = /\.(wasm|data|tflite|binarypb)$|^hands_solution_.*\.js$/;
+const MIME_TYPES: Record<string, string> = {
+    wasm: 'application/wasm',
+    js: 'text/javascript',
+};
+
+function mediapipeHandsAssets(): Plugin {
+    const files = readdirSync(MEDIAPIPE_DIR).filter((f) => MEDIAPIPE_FILES.test(f));
+
+    return {
+        name: 'mediapipe-hands-assets',
+
+        configureServer(server) {
+            server.middlewares.use((req, res, next) => {
+                const file = req.url?.match(/\/mediapipe\/hands\/([^?]+)/)?.[1];
+                if (!file || !files.includes(file)) return next();
+
+                const ext = file.split('.').pop()!;
+                res.setHeader('Content-Type', MIME_TYPES[ext] ?? 'application/octet-stream');
+                if (req.method === 'HEAD') return res.end();
+                createReadStream(MEDIAPIPE_DIR + file).pipe(res);
+            });
+        },
+
+        generateBundle() {
+            for (const file of files) {
+                this.emitFile({
+                    type: 'asset',
+                    fileName: `mediapipe/hands/${file}`,
+                    source: readFileSync(MEDIAPIPE_DIR + file),
+                });
+            }
+        },
+    };
+}
+
+// Air-gapped installs depend on the local textures (ASSET_MANIFEST in src/assets.ts). The Earth
+// is committed, so losing it fails the build; the other bodies come from `npm run fetch-textures`
+const TEXTURE_DIR = fileURLToPath(new URL('./public/textures/', import.meta.url));
+const EARTH_TEXTURES = ['earth-blue-marble.jpg', 'earth-night.jpg', 'earth-topology.png', 'earth-water.png', 'earth-clouds.png'];
+const BODY_TEXTURES = ['2k_moon.jpg', '2k_mars.jpg', '2k_venus_atmosphere.jpg', '2k_jupiter.jpg'];
+
+function localTextures(): Plugin {
+    return {
+        name: 'local-textures',
+        apply: 'build',
+
+        buildStart() {
+            const missing = (files: string[]) => files.filter((f) => !existsSync(TEXTURE_DIR + f));
+            const earth = missing(EARTH_TEXTURES);
+            if (earth.length > 0) this.error(`Missing Earth textures in public/textures: ${earth.join(', ')}`);
+            const bodies = missing(BODY_TEXTURES);
+            if (bodies.length > 0) {
+                this.warn(`No local ${bodies.join(', ')} – run \`npm run fetch-textures\` or those bodies need a CDN`);
+            }
+        },
+    };
+}
+
+// `vite build --mode lib` bundles the embeddable <hand-globe> element (src/lib.ts) instead of the app
+export default defineConfig(({ mode }) => ({
     base: '/3DGlobeHandGesture/',
-});
+    plugins: [mediapipeHandsAssets(), localTextures()],
+    build: mode === 'lib'
+        ? {
+            outDir: 'dist-lib',
+            lib: { entry: 'src/lib.ts', formats: ['es'], fileName: 'hand-globe' },
+        }
+        : {},
+}));